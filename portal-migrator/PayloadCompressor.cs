@@ -0,0 +1,221 @@
+// Copyright (c) 2025 Matt Sitton (dfanz0r)
+// Licensed under the BSD 2-Clause License.
+// See the LICENSE file in the project root for full license information.
+using System;
+using System.Buffers.Binary;
+using System.IO;
+
+namespace RuntimeMigrator;
+
+/// <summary>
+/// Wraps a binary payload in the compressed container understood by the runtime readers.
+/// The payload is split into fixed-size blocks that are LZ77 compressed independently (LZ4 block layout),
+/// so the runtime only ever needs one block in memory and can still seek to any chunk offset.
+/// </summary>
+public static class PayloadCompressor
+{
+    public const ushort CompressedFlag = 0x8000;
+    public const ushort ContainerVersion = 1;
+    public const int DefaultBlockSize = 512;
+    public const int MaxBlockSize = 4096;
+
+    private const int MinMatch = 4;
+    private const int HashBits = 12;
+    private const int MaxOffset = ushort.MaxValue;
+    private const int HeaderSize = 12;
+
+    /// <summary>
+    /// Compresses the payload into a container:
+    /// uint16 flags (CompressedFlag | ContainerVersion), uint32 raw length, uint16 block size, uint32 block count,
+    /// uint32 block offsets[block count + 1] (absolute, the last one is the end of the data), then the blocks.
+    /// </summary>
+    public static byte[] Compress(byte[] rawData, int blockSize = DefaultBlockSize)
+    {
+        ArgumentNullException.ThrowIfNull(rawData);
+        if (blockSize <= 0 || blockSize > MaxBlockSize)
+            throw new ArgumentOutOfRangeException(nameof(blockSize), blockSize, $"Block size must be between 1 and {MaxBlockSize}.");
+
+        int blockCount = (rawData.Length + blockSize - 1) / blockSize;
+        int tableSize = (blockCount + 1) * 4;
+        using var blocks = new MemoryStream();
+        uint[] offsets = new uint[blockCount + 1];
+        int[] hashTable = new int[1 << HashBits];
+
+        for (int block = 0; block < blockCount; block++)
+        {
+            offsets[block] = (uint)(HeaderSize + tableSize + blocks.Length);
+            int start = block * blockSize;
+            CompressBlock(rawData.AsSpan(start, Math.Min(blockSize, rawData.Length - start)), blocks, hashTable);
+        }
+        offsets[blockCount] = (uint)(HeaderSize + tableSize + blocks.Length);
+
+        byte[] container = new byte[HeaderSize + tableSize + blocks.Length];
+        BinaryPrimitives.WriteUInt16LittleEndian(container.AsSpan(0), CompressedFlag | ContainerVersion);
+        BinaryPrimitives.WriteUInt32LittleEndian(container.AsSpan(2), (uint)rawData.Length);
+        BinaryPrimitives.WriteUInt16LittleEndian(container.AsSpan(6), (ushort)blockSize);
+        BinaryPrimitives.WriteUInt32LittleEndian(container.AsSpan(8), (uint)blockCount);
+        for (int i = 0; i <= blockCount; i++)
+            BinaryPrimitives.WriteUInt32LittleEndian(container.AsSpan(HeaderSize + i * 4), offsets[i]);
+        blocks.Position = 0;
+        blocks.ReadExactly(container.AsSpan(HeaderSize + tableSize));
+
+        return container;
+    }
+
+    /// <summary>
+    /// Returns true if the payload starts with the compressed container flag.
+    /// </summary>
+    public static bool IsCompressed(ReadOnlySpan<byte> payload)
+    {
+        return payload.Length >= 2 && (BinaryPrimitives.ReadUInt16LittleEndian(payload) & CompressedFlag) != 0;
+    }
+
+    /// <summary>
+    /// Expands a compressed container back into the raw payload. Mirrors the runtime decoder.
+    /// </summary>
+    public static byte[] Decompress(byte[] container)
+    {
+        ArgumentNullException.ThrowIfNull(container);
+        if (!IsCompressed(container))
+            throw new InvalidDataException("Payload is not a compressed container.");
+
+        ushort version = (ushort)(BinaryPrimitives.ReadUInt16LittleEndian(container) & ~CompressedFlag);
+        if (version != ContainerVersion)
+            throw new InvalidDataException($"Unsupported compressed container version {version}.");
+
+        int rawLength = (int)BinaryPrimitives.ReadUInt32LittleEndian(container.AsSpan(2));
+        int blockSize = BinaryPrimitives.ReadUInt16LittleEndian(container.AsSpan(6));
+        int blockCount = (int)BinaryPrimitives.ReadUInt32LittleEndian(container.AsSpan(8));
+
+        byte[] raw = new byte[rawLength];
+        for (int block = 0; block < blockCount; block++)
+        {
+            int start = (int)BinaryPrimitives.ReadUInt32LittleEndian(container.AsSpan(HeaderSize + block * 4));
+            int end = (int)BinaryPrimitives.ReadUInt32LittleEndian(container.AsSpan(HeaderSize + (block + 1) * 4));
+            int rawStart = block * blockSize;
+            int written = DecompressBlock(container.AsSpan(start, end - start),
+                raw.AsSpan(rawStart, Math.Min(blockSize, rawLength - rawStart)));
+            if (written != Math.Min(blockSize, rawLength - rawStart))
+                throw new InvalidDataException($"Block {block} decompressed to {written} bytes.");
+        }
+
+        return raw;
+    }
+
+    // Greedy single-probe hash matcher. Matches only reference bytes of the same block.
+    private static void CompressBlock(ReadOnlySpan<byte> source, Stream output, int[] hashTable)
+    {
+        Array.Fill(hashTable, -1);
+        int anchor = 0;
+        int position = 0;
+
+        while (position + MinMatch <= source.Length)
+        {
+            uint sequence = BinaryPrimitives.ReadUInt32LittleEndian(source[position..]);
+            int hash = (int)((sequence * 2654435761u) >> (32 - HashBits));
+            int candidate = hashTable[hash];
+            hashTable[hash] = position;
+
+            if (candidate < 0 || position - candidate > MaxOffset ||
+                BinaryPrimitives.ReadUInt32LittleEndian(source[candidate..]) != sequence)
+            {
+                position++;
+                continue;
+            }
+
+            int matchLength = MinMatch;
+            while (position + matchLength < source.Length && source[candidate + matchLength] == source[position + matchLength])
+                matchLength++;
+
+            WriteSequence(output, source[anchor..position], position - candidate, matchLength);
+            position += matchLength;
+            anchor = position;
+        }
+
+        // The last sequence carries the remaining literals and no match
+        WriteSequence(output, source[anchor..], 0, 0);
+    }
+
+    private static void WriteSequence(Stream output, ReadOnlySpan<byte> literals, int matchOffset, int matchLength)
+    {
+        int literalNibble = Math.Min(literals.Length, 15);
+        int matchNibble = matchLength == 0 ? 0 : Math.Min(matchLength - MinMatch, 15);
+        output.WriteByte((byte)((literalNibble << 4) | matchNibble));
+        if (literalNibble == 15)
+            WriteLengthExtension(output, literals.Length - 15);
+        output.Write(literals);
+
+        if (matchLength == 0)
+            return;
+
+        output.WriteByte((byte)matchOffset);
+        output.WriteByte((byte)(matchOffset >> 8));
+        if (matchNibble == 15)
+            WriteLengthExtension(output, matchLength - MinMatch - 15);
+    }
+
+    private static void WriteLengthExtension(Stream output, int remaining)
+    {
+        while (remaining >= 255)
+        {
+            output.WriteByte(255);
+            remaining -= 255;
+        }
+        output.WriteByte((byte)remaining);
+    }
+
+    private static int DecompressBlock(ReadOnlySpan<byte> input, Span<byte> output)
+    {
+        int src = 0;
+        int dst = 0;
+
+        while (src < input.Length)
+        {
+            byte token = input[src++];
+            int literalLength = token >> 4;
+            if (literalLength == 15)
+                literalLength += ReadLengthExtension(input, ref src);
+
+            if (src + literalLength > input.Length || dst + literalLength > output.Length)
+                throw new InvalidDataException("Compressed block literals overrun the block.");
+            input.Slice(src, literalLength).CopyTo(output[dst..]);
+            src += literalLength;
+            dst += literalLength;
+
+            if (src >= input.Length)
+                break;
+
+            if (src + 2 > input.Length)
+                throw new InvalidDataException("Compressed block ends inside a match offset.");
+            int matchOffset = input[src] | (input[src + 1] << 8);
+            src += 2;
+
+            int matchLength = (token & 15) + MinMatch;
+            if ((token & 15) == 15)
+                matchLength += ReadLengthExtension(input, ref src);
+
+            if (matchOffset == 0 || matchOffset > dst || dst + matchLength > output.Length)
+                throw new InvalidDataException($"Compressed block has an invalid match (offset {matchOffset}, length {matchLength}).");
+
+            for (int i = 0; i < matchLength; i++, dst++)
+                output[dst] = output[dst - matchOffset];
+        }
+
+        return dst;
+    }
+
+    private static int ReadLengthExtension(ReadOnlySpan<byte> input, ref int src)
+    {
+        int total = 0;
+        byte extra;
+        do
+        {
+            if (src >= input.Length)
+                throw new InvalidDataException("Compressed block ends inside a length extension.");
+            extra = input[src++];
+            total += extra;
+        } while (extra == 255);
+
+        return total;
+    }
+}
@@ -45,9 +45,36 @@ public static class CodeGenerator
             argList.Remove("--verbose");
         }
 
+        bool compress = argList.Remove("--compress");
+
+        string streamPrefix = StringsJsonWriter.DefaultStreamPrefix;
+        int layerIndex = argList.IndexOf("--layer");
+        if (layerIndex >= 0)
+        {
+            if (layerIndex + 1 >= argList.Count || !StringsJsonWriter.IsValidStreamPrefix(argList[layerIndex + 1]))
+            {
+                Console.Error.WriteLine("Error: --layer expects a single uppercase letter A-Z.");
+                return 1;
+            }
+            streamPrefix = argList[layerIndex + 1];
+            argList.RemoveRange(layerIndex, 2);
+        }
+
+        var encoding = StringEncoding.Base16;
+        int encodingIndex = argList.IndexOf("--encoding");
+        if (encodingIndex >= 0)
+        {
+            if (encodingIndex + 1 >= argList.Count || !StringsJsonWriter.TryParseEncoding(argList[encodingIndex + 1], out encoding))
+            {
+                Console.Error.WriteLine("Error: --encoding expects base16 or base64.");
+                return 1;
+            }
+            argList.RemoveRange(encodingIndex, 2);
+        }
+
         if (argList.Count < 1)
         {
-            Console.Error.WriteLine("Usage: RuntimeMigrator <input.json> [output.bin] [--verbose]");
+            Console.Error.WriteLine("Usage: RuntimeMigrator <input.json> [output.bin] [--verbose] [--layer <A-Z>] [--compress] [--encoding base16|base64]");
             return 1;
         }
 
@@ -64,7 +91,10 @@ public static class CodeGenerator
         {
             InputPath = inputPath,
             OutputPath = outputPath,
-            Verbose = verbose
+            Verbose = verbose,
+            StreamPrefix = streamPrefix,
+            Compress = compress,
+            Encoding = encoding
         };
 
         try
@@ -83,6 +113,8 @@ public static class CodeGenerator
             Console.WriteLine($"Objects included in binary: {result.CompressedCount}");
             Console.WriteLine($"Encoded Object Count: {result.CompressedCount} Chunk Count: {result.ChunkCount}");
             Console.WriteLine($"Scale Palette Count: {result.ScalePaletteCount} Rotation Palette Count: {result.RotationPaletteCount} Type Palette Count: {result.TypePaletteCount}");
+            if (result.CompressedLength is int compressedLength)
+                Console.WriteLine($"Compressed payload: {result.BinaryLength} -> {compressedLength} bytes");
 
             if (verbose)
             {
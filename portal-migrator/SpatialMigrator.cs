@@ -21,6 +21,12 @@ public static class SpatialMigrator
         public required string InputPath { get; init; }
         public required string OutputPath { get; init; }
         public bool Verbose { get; init; }
+        /// <summary>Stream layer the data is written to. It is merged into an existing strings file, replacing only its own keys.</summary>
+        public string StreamPrefix { get; init; } = StringsJsonWriter.DefaultStreamPrefix;
+        /// <summary>Store the payload in the block-compressed container instead of as plain binary.</summary>
+        public bool Compress { get; init; }
+        /// <summary>Character encoding of the strings keys. Base64 fits 150 bytes into each 200 character key instead of 100.</summary>
+        public StringEncoding Encoding { get; init; } = StringEncoding.Base16;
     }
 
     /// <summary>
@@ -40,6 +46,9 @@ public static class SpatialMigrator
         public required int DroppedScaleCount { get; init; }
         public required int DroppedRotationCount { get; init; }
         public required string MapType { get; init; }
+        public required int BinaryLength { get; init; }
+        /// <summary>Size of the compressed container, or null if the payload was stored uncompressed.</summary>
+        public int? CompressedLength { get; init; }
     }
 
     /// <summary>
@@ -78,7 +87,10 @@ public static class SpatialMigrator
             Path.GetFileNameWithoutExtension(options.OutputPath));
 
         string stringsPath = basePath + ".strings.json";
-        StringsJsonWriter.Write(binaryData, stringsPath);
+        // Always merge: only this layer's keys are replaced, other layers and keys like the runtime config are kept
+        byte[] payload = options.Compress ? PayloadCompressor.Compress(binaryData) : binaryData;
+        StringsJsonWriter.Write(payload, stringsPath, streamPrefix: options.StreamPrefix, merge: true,
+            encoding: options.Encoding);
 
         // Write filtered spatial JSON
         string filteredPath = basePath + "_filtered.spatial.json";
@@ -97,7 +109,9 @@ public static class SpatialMigrator
             TypePaletteCount = classification.TypePalette.Count,
             DroppedScaleCount = classification.DroppedScaleCount,
             DroppedRotationCount = classification.DroppedRotationCount,
-            MapType = classification.MapType
+            MapType = classification.MapType,
+            BinaryLength = binaryData.Length,
+            CompressedLength = options.Compress ? payload.Length : null
         };
     }
 }
@@ -2,7 +2,9 @@
 // Licensed under the BSD 2-Clause License.
 // See the LICENSE file in the project root for full license information.
 using System;
+using System.Buffers.Binary;
 using System.IO;
+using System.Linq;
 using System.Text.Encodings.Web;
 using System.Text.Json;
 using System.Text.Json.Nodes;
@@ -10,38 +12,148 @@ using System.Text.Json.Nodes;
 namespace RuntimeMigrator;
 
 /// <summary>
-/// Writes the encoded binary data as a chunked custom-base16 strings JSON file.
+/// Character encoding used for the binary data stored in the strings file.
+/// </summary>
+public enum StringEncoding
+{
+    /// <summary>Custom base16, 2 characters per byte. The default, needs no marker key.</summary>
+    Base16,
+    /// <summary>URL-safe base64 without padding, 4 characters per 3 bytes. Declared by a <c>A_enc</c> marker key.</summary>
+    Base64
+}
+
+/// <summary>
+/// Writes the encoded binary data as a chunked strings JSON file.
 /// </summary>
 public static class StringsJsonWriter
 {
     private const int DefaultChunkSize = 200;
+    public const string DefaultStreamPrefix = "A";
+    public const string ChecksumStreamSuffix = "_crc";
+    public const string EncodingMarkerSuffix = "_enc";
+
+    /// <summary>
+    /// Returns true if the prefix is a valid stream layer name (a single uppercase ASCII letter).
+    /// </summary>
+    public static bool IsValidStreamPrefix(string prefix)
+    {
+        return prefix is { Length: 1 } && prefix[0] >= 'A' && prefix[0] <= 'Z';
+    }
+
+    /// <summary>
+    /// Parses an encoding name as accepted on the command line ("base16" or "base64").
+    /// </summary>
+    public static bool TryParseEncoding(string? name, out StringEncoding encoding)
+    {
+        switch (name)
+        {
+            case "base16":
+                encoding = StringEncoding.Base16;
+                return true;
+            case "base64":
+                encoding = StringEncoding.Base64;
+                return true;
+            default:
+                encoding = StringEncoding.Base16;
+                return false;
+        }
+    }
 
     /// <summary>
-    /// Writes the .strings.json file with the binary data encoded in custom base16 chunks.
+    /// Writes the .strings.json file with the binary data encoded in chunks of <paramref name="chunkSize"/> characters.
+    /// Base64 streams get a marker key (<c>A_enc</c>) so the runtime picks the matching decoder.
+    /// When <paramref name="merge"/> is set, keys of other stream layers already in the file are kept and
+    /// only the keys of <paramref name="streamPrefix"/> are replaced.
+    /// A checksum stream (<c>A_crc0</c>, <c>A_crc1</c>, ...) is written next to the data so the runtime can verify it.
     /// </summary>
-    public static void Write(byte[] binaryData, string outputPath, int chunkSize = DefaultChunkSize)
+    public static void Write(byte[] binaryData, string outputPath, int chunkSize = DefaultChunkSize,
+        string streamPrefix = DefaultStreamPrefix, bool merge = false, StringEncoding encoding = StringEncoding.Base16)
     {
         ArgumentNullException.ThrowIfNull(binaryData);
         ArgumentException.ThrowIfNullOrWhiteSpace(outputPath);
-        if (chunkSize <= 0)
-            throw new ArgumentOutOfRangeException(nameof(chunkSize), chunkSize, "Chunk size must be positive.");
+        // Every key except the last must decode to the same number of bytes, so base64 keys hold whole 4-character groups
+        int charactersPerGroup = encoding == StringEncoding.Base64 ? 4 : 2;
+        if (chunkSize <= 0 || chunkSize % charactersPerGroup != 0)
+            throw new ArgumentOutOfRangeException(nameof(chunkSize), chunkSize,
+                $"Chunk size must be positive and a multiple of {charactersPerGroup}.");
+        if (!IsValidStreamPrefix(streamPrefix))
+            throw new ArgumentException($"Stream prefix '{streamPrefix}' must be a single uppercase letter A-Z.", nameof(streamPrefix));
+
+        var jsonChunks = merge && File.Exists(outputPath)
+            ? JsonNode.Parse(File.ReadAllText(outputPath)) as JsonObject
+                ?? throw new InvalidOperationException($"Existing strings file '{outputPath}' is not a JSON object.")
+            : new JsonObject();
+
+        // Drop the previous keys of this stream so a shorter payload does not leave stale trailing keys behind
+        string checksumPrefix = streamPrefix + ChecksumStreamSuffix;
+        foreach (string key in jsonChunks.Select(pair => pair.Key)
+                     .Where(key => IsStreamKey(key, streamPrefix) || IsStreamKey(key, checksumPrefix)).ToList())
+            jsonChunks.Remove(key);
+        jsonChunks.Remove(streamPrefix + EncodingMarkerSuffix);
+        jsonChunks.Remove(checksumPrefix + EncodingMarkerSuffix);
+
+        int bytesPerKey = encoding == StringEncoding.Base64 ? chunkSize / 4 * 3 : chunkSize / 2;
+        WriteStream(jsonChunks, streamPrefix, binaryData, chunkSize, encoding);
+        WriteStream(jsonChunks, checksumPrefix, BuildChecksums(binaryData, bytesPerKey), chunkSize, encoding);
+
+        string jsonOutput = jsonChunks.ToJsonString(new JsonSerializerOptions
+        {
+            WriteIndented = true,
+            Encoder = JavaScriptEncoder.UnsafeRelaxedJsonEscaping
+        });
+
+        File.WriteAllText(outputPath, jsonOutput);
+    }
+
+    private static void WriteStream(JsonObject jsonChunks, string prefix, byte[] data, int chunkSize, StringEncoding encoding)
+    {
+        string encoded = encoding == StringEncoding.Base64
+            ? Utilities.EncodeBase64Url(data)
+            : Utilities.EncodeCustomBase16(data);
+        if (encoding == StringEncoding.Base64)
+            jsonChunks[prefix + EncodingMarkerSuffix] = "base64";
 
-        string encoded = Utilities.EncodeCustomBase16(binaryData);
-        var jsonChunks = new JsonObject();
         int keyIndex = 0;
         for (int i = 0; i < encoded.Length; i += chunkSize)
         {
             string chunk = encoded.Substring(i, Math.Min(chunkSize, encoded.Length - i));
-            jsonChunks[$"A{keyIndex:X}"] = chunk;
+            jsonChunks[$"{prefix}{keyIndex:X}"] = chunk;
             keyIndex++;
         }
+    }
 
-        string jsonOutput = jsonChunks.ToJsonString(new JsonSerializerOptions
+    /// <summary>
+    /// Builds the checksum stream payload: uint32 payload length, uint32 key count, uint32 CRC32 of the whole
+    /// payload, then one uint32 CRC32 per key over the bytes that key decodes to.
+    /// </summary>
+    public static byte[] BuildChecksums(byte[] binaryData, int bytesPerKey)
+    {
+        int keyCount = (binaryData.Length + bytesPerKey - 1) / bytesPerKey;
+        byte[] checksums = new byte[12 + keyCount * 4];
+        BinaryPrimitives.WriteUInt32LittleEndian(checksums.AsSpan(0), (uint)binaryData.Length);
+        BinaryPrimitives.WriteUInt32LittleEndian(checksums.AsSpan(4), (uint)keyCount);
+        BinaryPrimitives.WriteUInt32LittleEndian(checksums.AsSpan(8), Utilities.Crc32(binaryData));
+
+        for (int i = 0; i < keyCount; i++)
         {
-            WriteIndented = true,
-            Encoder = JavaScriptEncoder.UnsafeRelaxedJsonEscaping
-        });
+            int start = i * bytesPerKey;
+            var keyBytes = binaryData.AsSpan(start, Math.Min(bytesPerKey, binaryData.Length - start));
+            BinaryPrimitives.WriteUInt32LittleEndian(checksums.AsSpan(12 + i * 4), Utilities.Crc32(keyBytes));
+        }
 
-        File.WriteAllText(outputPath, jsonOutput);
+        return checksums;
+    }
+
+    private static bool IsStreamKey(string key, string streamPrefix)
+    {
+        if (key.Length <= streamPrefix.Length || !key.StartsWith(streamPrefix, StringComparison.Ordinal))
+            return false;
+
+        for (int i = streamPrefix.Length; i < key.Length; i++)
+        {
+            if (!Uri.IsHexDigit(key[i]) || char.IsLower(key[i]))
+                return false;
+        }
+        return true;
     }
 }
@@ -13,6 +13,8 @@ public static class Utilities
     // 256-byte lookup: index by char code, value = nibble (0-15) or 0xFF for invalid.
     private static readonly byte[] CUSTOM_BASE16_LOOKUP = BuildLookupTable();
 
+    private static readonly uint[] CRC32_TABLE = BuildCrc32Table();
+
     private static byte[] BuildLookupTable()
     {
         byte[] table = new byte[256];
@@ -86,4 +88,50 @@ public static class Utilities
 
         return result;
     }
+
+    /// <summary>
+    /// Encodes bytes into URL-safe base64 without padding ('-' and '_' replace '+' and '/').
+    /// </summary>
+    public static string EncodeBase64Url(ReadOnlySpan<byte> data)
+    {
+        return Convert.ToBase64String(data).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+    }
+
+    /// <summary>
+    /// Decodes an unpadded URL-safe base64 string back into bytes.
+    /// </summary>
+    public static byte[] DecodeBase64Url(string data)
+    {
+        ArgumentNullException.ThrowIfNull(data);
+
+        string padded = data.Replace('-', '+').Replace('_', '/');
+        padded += new string('=', (4 - padded.Length % 4) % 4);
+        return Convert.FromBase64String(padded);
+    }
+
+    private static uint[] BuildCrc32Table()
+    {
+        uint[] table = new uint[256];
+        for (uint n = 0; n < 256; n++)
+        {
+            uint c = n;
+            for (int k = 0; k < 8; k++)
+                c = (c & 1) != 0 ? 0xEDB88320u ^ (c >> 1) : c >> 1;
+            table[n] = c;
+        }
+
+        return table;
+    }
+
+    /// <summary>
+    /// Computes the CRC32 (IEEE 802.3) checksum used by the runtime integrity checks.
+    /// </summary>
+    public static uint Crc32(ReadOnlySpan<byte> data)
+    {
+        uint crc = 0xFFFFFFFFu;
+        foreach (byte b in data)
+            crc = CRC32_TABLE[(crc ^ b) & 0xFF] ^ (crc >> 8);
+
+        return ~crc;
+    }
 }
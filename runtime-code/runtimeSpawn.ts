@@ -11,13 +11,164 @@ import * as modlib from "modlib";
  * Upload this file as the Portal runtime script and upload the generated
  * `<output>.strings.json` as the experience strings file. The script decodes
  * the RuntimeMigrator binary stream and spawns every encoded object once.
+ *
+ * Small maps can spawn everything inside `OnGameModeStarted`. Larger maps should
+ * use the budgeted mode, which spreads spawning across `OngoingGlobal` ticks so
+ * a single call never trips the runtime iteration limit.
+ *
+ * A strings file can hold several independent streams (layers), each under its
+ * own single letter key prefix. Layers are loaded and unloaded independently with
+ * `loadStreamLayer`/`unloadStreamLayer`, e.g. to toggle optional cover per phase.
+ *
+ * If the converter wrote checksums for a layer, every string key is verified
+ * before anything from that layer is spawned.
+ */
+
+type SpawnMode = "oneShot" | "budgeted";
+type SpawnBudgetUnit = "objects" | "chunks";
+
+const SPAWN_MODE: SpawnMode = "budgeted";
+const SPAWN_BUDGET_UNIT: SpawnBudgetUnit = "objects";
+const SPAWN_BUDGET_PER_TICK = 64;
+const SPAWN_PROGRESS_STEP = 10;
+
+// The Portal runtime starts to misbehave past roughly this many live runtime-spawned objects.
+const RUNTIME_OBJECT_LIMIT = 4096;
+const OBJECT_BUDGET_CEILING = 3900;
+/**
+ * What the static spawner does once the ceiling is reached.
+ * - refuse: skip the remaining objects
+ * - queue: stop reading the stream and resume once live objects are unspawned, e.g. by unloading another layer.
+ *   After BUDGET_QUEUE_TIMEOUT_TICKS without room the rest of the stream is skipped.
+ */
+const OBJECT_BUDGET_POLICY: ObjectBudgetPolicy = "queue";
+const BUDGET_QUEUE_TIMEOUT_TICKS = 900;
+
+type ObjectBudgetPolicy = "refuse" | "queue";
+
+interface StreamLayerConfig {
+    prefix: string; // Key prefix of the stream in the strings file, e.g. "A" for keys A0, A1, ...
+    name: string;
+    loadOnStart: boolean;
+    toggleInteractPointId?: number; // Interact point that loads the layer while unloaded and unloads it otherwise
+}
+
+// Layers missing from the uploaded strings file are ignored.
+const STREAM_LAYERS: StreamLayerConfig[] = [
+    { prefix: "A", name: "terrain", loadOnStart: true },
+    { prefix: "B", name: "cover", loadOnStart: false },
+    { prefix: "C", name: "decoration", loadOnStart: false },
+];
+
+/**
+ * What a layer does when its checksums do not match.
+ * - refuse: spawn nothing from the layer
+ * - skipChunk: spawn everything except chunks stored in corrupt keys. Corrupt header, palette or chunk index
+ *   data still refuses the layer, nothing after it can be trusted.
+ */
+const INTEGRITY_POLICY: IntegrityPolicy = "skipChunk";
+const INTEGRITY_KEYS_PER_TICK = 40;
+// Checksum sidecar stream of a layer, e.g. keys A_crc0, A_crc1, ... for layer A
+const CHECKSUM_STREAM_SUFFIX = "_crc";
+
+type IntegrityPolicy = "refuse" | "skipChunk";
+
+// Log output per category. "parser" covers decoding and verifying streams, "spawner" layers and spawning.
+// Messages of levels above a category's level are still built by the caller, then discarded.
+type LogLevel = "off" | "error" | "warn" | "info" | "debug";
+type LogCategory = "parser" | "spawner";
+
+const LOG_LEVEL: LogLevel = "info";
+const LOG_CATEGORY_LEVELS: { [category in LogCategory]?: LogLevel } = {};
+// Messages a category may write every LOG_WINDOW_TICKS, the rest are only counted
+const LOG_MESSAGES_PER_WINDOW = 20;
+const LOG_WINDOW_TICKS = 30;
+
+const LOG_LEVELS: ReadonlyArray<LogLevel> = ["off", "error", "warn", "info", "debug"];
+const LOG_RANK_ERROR = 1;
+const LOG_RANK_WARN = 2;
+const LOG_RANK_INFO = 3;
+const LOG_RANK_DEBUG = 4;
+
+function noLog(_message: string): void {}
+
+let logTick = 0;
+
+/**
+ * Rate limited output of one log category. Disabled levels are the shared noLog.
  */
+class Logger {
+    public readonly error: (message: string) => void;
+    public readonly warn: (message: string) => void;
+    public readonly info: (message: string) => void;
+    public readonly debug: (message: string) => void;
+    public readonly debugEnabled: boolean;
+
+    private windowStart = 0;
+    private writtenInWindow = 0;
+    private suppressedInWindow = 0;
+
+    constructor(readonly category: LogCategory, level: LogLevel) {
+        const rank = LOG_LEVELS.indexOf(level);
+        this.error = rank >= LOG_RANK_ERROR ? (message) => this.write(LOG_RANK_ERROR, message) : noLog;
+        this.warn = rank >= LOG_RANK_WARN ? (message) => this.write(LOG_RANK_WARN, message) : noLog;
+        this.info = rank >= LOG_RANK_INFO ? (message) => this.write(LOG_RANK_INFO, message) : noLog;
+        this.debug = rank >= LOG_RANK_DEBUG ? (message) => this.write(LOG_RANK_DEBUG, message) : noLog;
+        this.debugEnabled = rank >= LOG_RANK_DEBUG;
+    }
+
+    // Starts a new window once the current one is over, reporting what the last one dropped
+    public update(): void {
+        if (logTick - this.windowStart < LOG_WINDOW_TICKS) return;
+
+        if (this.suppressedInWindow > 0) {
+            console.warn(`RuntimeMigrator [${this.category}] ${this.suppressedInWindow} message(s) suppressed.`);
+        }
+        this.windowStart = logTick;
+        this.writtenInWindow = 0;
+        this.suppressedInWindow = 0;
+    }
+
+    private write(rank: number, message: string): void {
+        if (this.writtenInWindow >= LOG_MESSAGES_PER_WINDOW) {
+            this.suppressedInWindow++;
+            return;
+        }
+        this.writtenInWindow++;
+
+        const line = `RuntimeMigrator [${this.category}] ${message}`;
+        if (rank === LOG_RANK_ERROR) console.error(line);
+        else if (rank === LOG_RANK_WARN) console.warn(line);
+        else console.log(line);
+    }
+}
+
+const log: { readonly [category in LogCategory]: Logger } = {
+    parser: new Logger("parser", LOG_CATEGORY_LEVELS.parser ?? LOG_LEVEL),
+    spawner: new Logger("spawner", LOG_CATEGORY_LEVELS.spawner ?? LOG_LEVEL),
+};
+
+// Advances the log clock, call once per tick
+function updateLogging(): void {
+    logTick++;
+    log.parser.update();
+    log.spawner.update();
+}
 
 const STRING_CHUNK_SIZE = 200;
 const DECODED_CHUNK_SIZE = STRING_CHUNK_SIZE / 2;
-const STREAM_PREFIX = "A";
+// Largest decoded key of any supported encoding (base64 stores 3 bytes per 4 characters)
+const MAX_DECODED_KEY_SIZE = (STRING_CHUNK_SIZE / 4) * 3;
+// Optional marker key declaring the encoding of a stream, e.g. A_enc = "base64". Streams without one are base16.
+const STRING_ENCODING_SUFFIX = "_enc";
+
+type StringEncoding = "base16" | "base64";
 
 const FORMAT_VERSION = 1;
+// Set in the first uint16 of a compressed container. A plain payload starts with FORMAT_VERSION, which never has it.
+const COMPRESSED_PAYLOAD_FLAG = 0x8000;
+const COMPRESSED_CONTAINER_VERSION = 1;
+const MAX_COMPRESSED_BLOCK_SIZE = 4096;
 const MAX_UINT16 = 65535;
 const SCALE_MAX = 100.0;
 const ROTATION_RANGE = Math.PI * 2;
@@ -51,6 +202,137 @@ function decodeCustomBase16(data: string, output: Uint8Array): number {
     return decodedLength;
 }
 
+// URL-safe base64 alphabet without padding, avoids the quote, backslash and brace characters
+const BASE64_TABLE = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+const BASE64_MAP = new Array<number>(128).fill(-1);
+
+for (let i = 0; i < BASE64_TABLE.length; i++) {
+    BASE64_MAP[BASE64_TABLE.charCodeAt(i)] = i;
+}
+
+function decodeBase64(data: string, output: Uint8Array): number {
+    const remainder = data.length & 3;
+    if (remainder === 1) throw new Error("Base64 string length is invalid.");
+
+    const decodedLength = (data.length >> 2) * 3 + (remainder === 0 ? 0 : remainder - 1);
+    if (output.length < decodedLength) throw new Error("Data buffer too small for decoded output.");
+
+    let bits = 0;
+    let bitCount = 0;
+    for (let i = 0, j = 0; i < data.length; i++) {
+        const code = data.charCodeAt(i);
+        const value = code < BASE64_MAP.length ? BASE64_MAP[code]! : -1;
+        if (value < 0) throw new Error(`Invalid base64 character at index ${i}.`);
+
+        bits = (bits << 6) | value;
+        bitCount += 6;
+        if (bitCount >= 8) {
+            bitCount -= 8;
+            output[j++] = (bits >> bitCount) & 0xff;
+            bits &= (1 << bitCount) - 1;
+        }
+    }
+
+    return decodedLength;
+}
+
+function getStringEncoding(strings: { [key: string]: string }, prefix: string): StringEncoding {
+    const marker = strings[`${prefix}${STRING_ENCODING_SUFFIX}`];
+    if (marker === undefined || marker === "base16") return "base16";
+    if (marker === "base64") return "base64";
+    throw new Error(`Stream '${prefix}' declares unsupported encoding '${marker}'.`);
+}
+
+// Bytes a full STRING_CHUNK_SIZE key decodes to
+function getDecodedKeySize(encoding: StringEncoding): number {
+    return encoding === "base64" ? MAX_DECODED_KEY_SIZE : DECODED_CHUNK_SIZE;
+}
+
+function getEncodedLength(encoding: StringEncoding, byteLength: number): number {
+    return encoding === "base64" ? Math.ceil((byteLength * 4) / 3) : byteLength * 2;
+}
+
+function decodeStringKey(encoding: StringEncoding, data: string, output: Uint8Array): number {
+    return encoding === "base64" ? decodeBase64(data, output) : decodeCustomBase16(data, output);
+}
+
+const CRC32_TABLE = new Uint32Array(256);
+
+for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    CRC32_TABLE[n] = c >>> 0;
+}
+
+// Continues a CRC32 (IEEE) over the first `length` bytes. Pass 0 to start a new checksum.
+function updateCrc32(crc: number, bytes: Uint8Array, length: number): number {
+    let c = ~crc;
+    for (let i = 0; i < length; i++) c = CRC32_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return ~c >>> 0;
+}
+
+// Worst case size of a compressed block: an all-literal sequence plus its length bytes
+function maxCompressedBlockLength(blockSize: number): number {
+    return blockSize + Math.ceil(blockSize / 255) + 16;
+}
+
+/**
+ * Decompresses one LZ77 block (LZ4 block layout) into `output` and returns the decompressed length.
+ * Each sequence is a token (literal length high nibble, match length - 4 low nibble, 15 = extended by
+ * following bytes), the literals, then a uint16 match offset and extended match length. The last sequence
+ * has literals only. Matches never reach outside the block, so blocks decompress independently.
+ */
+function decompressBlock(input: Uint8Array, inputLength: number, output: Uint8Array): number {
+    let src = 0;
+    let dst = 0;
+
+    while (src < inputLength) {
+        const token = input[src++];
+
+        let literalLength = token >>> 4;
+        if (literalLength === 15) {
+            let extra = 255;
+            while (extra === 255) {
+                if (src >= inputLength) throw new Error("Compressed block ends inside a literal length.");
+                extra = input[src++];
+                literalLength += extra;
+            }
+        }
+
+        if (src + literalLength > inputLength || dst + literalLength > output.length) {
+            throw new Error("Compressed block literals overrun the block.");
+        }
+        output.set(input.subarray(src, src + literalLength), dst);
+        src += literalLength;
+        dst += literalLength;
+
+        if (src >= inputLength) break;
+
+        if (src + 2 > inputLength) throw new Error("Compressed block ends inside a match offset.");
+        const matchOffset = input[src] | (input[src + 1] << 8);
+        src += 2;
+
+        let matchLength = (token & 15) + 4;
+        if ((token & 15) === 15) {
+            let extra = 255;
+            while (extra === 255) {
+                if (src >= inputLength) throw new Error("Compressed block ends inside a match length.");
+                extra = input[src++];
+                matchLength += extra;
+            }
+        }
+
+        if (matchOffset === 0 || matchOffset > dst || dst + matchLength > output.length) {
+            throw new Error(`Compressed block has an invalid match (offset ${matchOffset}, length ${matchLength}).`);
+        }
+
+        // Byte by byte, a match may overlap the bytes it is producing
+        for (let i = 0; i < matchLength; i++, dst++) output[dst] = output[dst - matchOffset];
+    }
+
+    return dst;
+}
+
 class RuntimeVector {
     constructor(public x: number, public y: number, public z: number) {}
 
@@ -59,31 +341,189 @@ class RuntimeVector {
     }
 }
 
+/**
+ * Reads the decoded bytes of a stream. A payload whose first uint16 has COMPRESSED_PAYLOAD_FLAG set is a
+ * compressed container: it is decompressed one block at a time, so memory stays at one block plus its
+ * compressed form however large the map is. Offsets passed to `seek` are always uncompressed offsets.
+ * Keys are decoded with the encoding declared in the stream's marker key.
+ */
 class RuntimeStringsStream {
     private readonly strings: { [key: string]: string };
-    private readonly decodedChunk = new Uint8Array(DECODED_CHUNK_SIZE);
+    private readonly encoding: StringEncoding;
+    private readonly bytesPerKey: number;
+    private readonly decodedChunk = new Uint8Array(MAX_DECODED_KEY_SIZE);
     private chunkIndex = 0;
     private chunkOffset = 0;
     private chunkLength = 0;
     private initialized = false;
     private eof = false;
 
-    constructor(private readonly prefix: string = STREAM_PREFIX) {
+    // Compressed container state, see openPayload
+    private payloadOpened = false;
+    private blockSize = 0;
+    private rawLength = 0;
+    private blockOffsets: Uint32Array | null = null;
+    private blockBuffer: Uint8Array | null = null;
+    private compressedBuffer: Uint8Array | null = null;
+    private blockIndex = -1;
+    private blockLength = 0;
+    private blockPosition = 0;
+
+    constructor(private readonly prefix: string, private readonly detectCompression = true) {
         this.strings = (mod as any).strings;
         if (typeof this.strings !== "object" || this.strings === null) {
             throw new Error("Runtime object 'mod.strings' is not available.");
         }
+        this.encoding = getStringEncoding(this.strings, prefix);
+        this.bytesPerKey = getDecodedKeySize(this.encoding);
     }
 
     public read(byteCount: number): Uint8Array | null {
+        this.openPayload();
+        if (!this.blockOffsets) return this.readStored(byteCount);
+
+        if (this.blockPosition >= this.blockLength && !this.loadBlock(this.blockIndex + 1)) return null;
+
+        // Served from the current block only, the next block is decompressed once its bytes are needed
+        const available = Math.min(byteCount, this.blockLength - this.blockPosition);
+        const result = this.blockBuffer!.slice(this.blockPosition, this.blockPosition + available);
+        this.blockPosition += available;
+        return result;
+    }
+
+    /**
+     * Moves the read position to an absolute byte offset in the decoded (uncompressed) stream.
+     */
+    public seek(byteOffset: number): void {
+        this.openPayload();
+        if (!this.blockOffsets) {
+            this.seekStored(byteOffset);
+            return;
+        }
+
+        if (byteOffset > this.rawLength)
+            throw new Error(`Seek offset ${byteOffset} is past the end of stream '${this.prefix}'.`);
+
+        const blockIndex = Math.min(Math.floor(byteOffset / this.blockSize), this.blockOffsets.length - 2);
+        if (blockIndex !== this.blockIndex) this.loadBlock(blockIndex);
+        this.blockPosition = byteOffset - blockIndex * this.blockSize;
+    }
+
+    /**
+     * Maps the uncompressed byte range [offset, end) to the stored bytes holding it, for checksum lookups.
+     */
+    public getStoredStart(offset: number): number {
+        this.openPayload();
+        if (!this.blockOffsets) return offset;
+        return this.blockOffsets[Math.floor(offset / this.blockSize)];
+    }
+
+    public getStoredEnd(end: number): number {
+        this.openPayload();
+        if (!this.blockOffsets) return end;
+        if (end <= 0) return this.blockOffsets[0];
+        return this.blockOffsets[Math.floor((end - 1) / this.blockSize) + 1];
+    }
+
+    /**
+     * Checks the container flag on first use and reads the block table of a compressed payload.
+     */
+    private openPayload(): void {
+        if (this.payloadOpened) return;
+        this.payloadOpened = true;
+        if (!this.detectCompression) return;
+
+        const marker = this.readStored(2);
+        if (marker === null || marker.length < 2 || (marker[1] & 0x80) === 0) {
+            this.seekStored(0);
+            return;
+        }
+
+        const containerVersion = (marker[0] | (marker[1] << 8)) & ~COMPRESSED_PAYLOAD_FLAG;
+        if (containerVersion !== COMPRESSED_CONTAINER_VERSION) {
+            throw new Error(`Unsupported compressed container version ${containerVersion} in stream '${this.prefix}'.`);
+        }
+
+        const header = this.readStoredExactly(10);
+        const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+        this.rawLength = view.getUint32(0, true);
+        this.blockSize = view.getUint16(4, true);
+        const blockCount = view.getUint32(6, true);
+
+        if (this.blockSize === 0 || this.blockSize > MAX_COMPRESSED_BLOCK_SIZE) {
+            throw new Error(`Compressed block size ${this.blockSize} is outside 1..${MAX_COMPRESSED_BLOCK_SIZE}.`);
+        }
+        if (blockCount !== Math.ceil(this.rawLength / this.blockSize)) {
+            throw new Error(`Compressed block count ${blockCount} does not match raw length ${this.rawLength}.`);
+        }
+
+        const offsets = this.readStoredExactly((blockCount + 1) * 4);
+        const offsetView = new DataView(offsets.buffer, offsets.byteOffset, offsets.byteLength);
+        this.blockOffsets = new Uint32Array(blockCount + 1);
+        for (let i = 0; i <= blockCount; i++) this.blockOffsets[i] = offsetView.getUint32(i * 4, true);
+
+        this.blockBuffer = new Uint8Array(this.blockSize);
+        this.compressedBuffer = new Uint8Array(maxCompressedBlockLength(this.blockSize));
+        log.parser.info(`Stream '${this.prefix}' is compressed: ${this.rawLength} bytes in ${blockCount} blocks.`);
+    }
+
+    // Decompresses one block into the block buffer. Returns false past the last block.
+    private loadBlock(blockIndex: number): boolean {
+        const offsets = this.blockOffsets!;
+        if (blockIndex >= offsets.length - 1) return false;
+
+        const start = offsets[blockIndex];
+        const compressedLength = offsets[blockIndex + 1] - start;
+        if (compressedLength <= 0 || compressedLength > this.compressedBuffer!.length) {
+            throw new Error(
+                `Compressed block ${blockIndex} of stream '${this.prefix}' has invalid length ${compressedLength}.`
+            );
+        }
+
+        if (this.getStoredPosition() !== start) this.seekStored(start);
+        let copied = 0;
+        while (copied < compressedLength) {
+            const part = this.readStored(compressedLength - copied);
+            if (part === null) throw new Error(`Compressed block ${blockIndex} of stream '${this.prefix}' is truncated.`);
+            this.compressedBuffer!.set(part, copied);
+            copied += part.length;
+        }
+
+        const expectedLength = Math.min(this.blockSize, this.rawLength - blockIndex * this.blockSize);
+        this.blockLength = decompressBlock(this.compressedBuffer!, compressedLength, this.blockBuffer!);
+        if (this.blockLength !== expectedLength) {
+            throw new Error(
+                `Compressed block ${blockIndex} of stream '${this.prefix}' decoded to ${this.blockLength} bytes, ` +
+                    `expected ${expectedLength}.`
+            );
+        }
+
+        this.blockIndex = blockIndex;
+        this.blockPosition = 0;
+        return true;
+    }
+
+    private readStoredExactly(byteCount: number): Uint8Array {
+        const result = new Uint8Array(byteCount);
+        let copied = 0;
+        while (copied < byteCount) {
+            const part = this.readStored(byteCount - copied);
+            if (part === null) throw new Error(`Compressed container header of stream '${this.prefix}' is truncated.`);
+            result.set(part, copied);
+            copied += part.length;
+        }
+        return result;
+    }
+
+    private readStored(byteCount: number): Uint8Array | null {
         const result = new Uint8Array(byteCount);
         let copied = 0;
 
         while (copied < byteCount) {
             if (!this.initialized || this.chunkOffset >= this.chunkLength) {
-                if (!this.loadNextChunk()) {
-                    return copied > 0 ? result.subarray(0, copied) : null;
-                }
+                // Never decode a key before its bytes are needed, the next key may belong to a corrupt chunk
+                if (copied > 0) return result.subarray(0, copied);
+                if (!this.loadNextChunk()) return null;
             }
 
             const available = Math.min(byteCount - copied, this.chunkLength - this.chunkOffset);
@@ -95,6 +535,29 @@ class RuntimeStringsStream {
         return result;
     }
 
+    private getStoredPosition(): number {
+        if (!this.initialized) return 0;
+        return (this.chunkIndex - 1) * this.bytesPerKey + this.chunkOffset;
+    }
+
+    // Every key except the last decodes to exactly bytesPerKey bytes, so the key is found by division.
+    private seekStored(byteOffset: number): void {
+        const keyIndex = Math.floor(byteOffset / this.bytesPerKey);
+        this.chunkIndex = keyIndex;
+        this.eof = false;
+
+        if (!this.loadNextChunk()) {
+            throw new Error(`Seek offset ${byteOffset} is past the end of stream '${this.prefix}'.`);
+        }
+
+        this.chunkOffset = byteOffset - keyIndex * this.bytesPerKey;
+        if (this.chunkOffset > this.chunkLength) {
+            throw new Error(
+                `Seek offset ${byteOffset} is past the end of key '${this.prefix}${keyIndex.toString(16).toUpperCase()}'.`
+            );
+        }
+    }
+
     private loadNextChunk(): boolean {
         if (this.eof) return false;
 
@@ -105,7 +568,11 @@ class RuntimeStringsStream {
             return false;
         }
 
-        this.chunkLength = decodeCustomBase16(encoded, this.decodedChunk);
+        try {
+            this.chunkLength = decodeStringKey(this.encoding, encoded, this.decodedChunk);
+        } catch (error) {
+            throw new Error(`Key '${key}' could not be decoded: ${error}`);
+        }
         this.chunkOffset = 0;
         this.chunkIndex++;
         this.initialized = true;
@@ -127,6 +594,17 @@ class BinaryStreamReader {
 
     constructor(private readonly source: RuntimeStringsStream) {}
 
+    /**
+     * Jumps to an absolute offset in the binary payload, discarding anything buffered.
+     */
+    public seek(offset: number): void {
+        this.source.seek(offset);
+        this.bufferOffset = 0;
+        this.bufferLength = 0;
+        this.sourceEof = false;
+        this.totalOffset = offset;
+    }
+
     public readByte(): number {
         return this.view.getUint8(this.readRaw(1));
     }
@@ -227,7 +705,9 @@ class BinaryStreamReader {
         }
 
         if (this.bufferLength - this.bufferOffset < size) {
-            throw new Error(`Unexpected EOF: need ${size}, have ${this.bufferLength - this.bufferOffset}.`);
+            throw new Error(
+                `Unexpected EOF at offset ${this.totalOffset}: need ${size}, have ${this.bufferLength - this.bufferOffset}.`
+            );
         }
     }
 }
@@ -263,6 +743,161 @@ function decodeUtf8(bytes: Uint8Array, start: number, length: number): string {
     return result;
 }
 
+const KEY_UNVERIFIED = 0;
+const KEY_VALID = 1;
+const KEY_CORRUPT = 2;
+
+/**
+ * Verifies a stream against the checksum sidecar written by the converter. The sidecar payload is
+ * uint32 payloadLength, uint32 keyCount, uint32 CRC32 of the whole payload, then a uint32 CRC32 per key
+ * over that key's decoded bytes. Keys are verified incrementally to stay under the iteration limit.
+ */
+class StreamIntegrity {
+    private readonly strings: { [key: string]: string };
+    private readonly encoding: StringEncoding;
+    private readonly bytesPerKey: number;
+    private readonly decoded = new Uint8Array(MAX_DECODED_KEY_SIZE);
+    private readonly payloadLength: number;
+    private readonly streamCrc: number;
+    private readonly keyCrcs: Uint32Array;
+    private readonly keyStates: Uint8Array;
+    private nextKey = 0;
+    private runningCrc = 0;
+    private corruptKeyCount = 0;
+    private complete = false;
+    private intact = false;
+
+    private constructor(private readonly prefix: string, reader: BinaryStreamReader) {
+        this.strings = (mod as any).strings;
+        this.encoding = getStringEncoding(this.strings, prefix);
+        this.bytesPerKey = getDecodedKeySize(this.encoding);
+        this.payloadLength = reader.readUInt32();
+        const keyCount = reader.readUInt32();
+        this.streamCrc = reader.readUInt32();
+
+        if (keyCount !== Math.ceil(this.payloadLength / this.bytesPerKey)) {
+            throw new Error(`key count ${keyCount} does not match payload length ${this.payloadLength}.`);
+        }
+
+        this.keyCrcs = new Uint32Array(keyCount);
+        this.keyStates = new Uint8Array(keyCount);
+        for (let i = 0; i < keyCount; i++) this.keyCrcs[i] = reader.readUInt32();
+    }
+
+    /**
+     * Reads the checksum table of a stream. Returns null if the strings file has no checksums for it.
+     */
+    public static load(prefix: string): StreamIntegrity | null {
+        const checksumPrefix = `${prefix}${CHECKSUM_STREAM_SUFFIX}`;
+        if (!StreamLayer.existsInStrings(checksumPrefix)) return null;
+
+        try {
+            return new StreamIntegrity(prefix, new BinaryStreamReader(new RuntimeStringsStream(checksumPrefix, false)));
+        } catch (error) {
+            throw new Error(`Checksum table '${checksumPrefix}' is unreadable: ${error}`);
+        }
+    }
+
+    /**
+     * Verifies up to `keyBudget` more keys. Returns true once the whole stream has been checked.
+     */
+    public verifyNext(keyBudget: number): boolean {
+        if (this.complete) return true;
+
+        const end = Math.min(this.nextKey + keyBudget, this.keyStates.length);
+        for (; this.nextKey < end; this.nextKey++) {
+            const length = this.verifyKey(this.nextKey);
+            if (length < 0) {
+                this.keyStates[this.nextKey] = KEY_CORRUPT;
+                this.corruptKeyCount++;
+            } else {
+                this.keyStates[this.nextKey] = KEY_VALID;
+                this.runningCrc = updateCrc32(this.runningCrc, this.decoded, length);
+            }
+        }
+
+        if (this.nextKey < this.keyStates.length) return false;
+
+        this.complete = true;
+        this.intact = this.corruptKeyCount === 0;
+
+        const trailingKey = this.keyName(this.keyStates.length);
+        if (this.strings[trailingKey] !== undefined) {
+            log.parser.error(`Stream '${this.prefix}' has unexpected key '${trailingKey}' past the end of the payload.`);
+            this.intact = false;
+        }
+        if (this.corruptKeyCount === 0 && this.runningCrc !== this.streamCrc) {
+            log.parser.error(`Stream '${this.prefix}' failed the whole-stream checksum.`);
+            this.intact = false;
+        }
+        if (this.corruptKeyCount > 0) {
+            log.parser.error(`Stream '${this.prefix}' has ${this.corruptKeyCount}/${this.keyStates.length} corrupt keys.`);
+        }
+        return true;
+    }
+
+    public isComplete(): boolean {
+        return this.complete;
+    }
+
+    /**
+     * True once verified and every key plus the whole-stream checksum matched.
+     */
+    public isIntact(): boolean {
+        return this.intact;
+    }
+
+    public getCorruptKeyCount(): number {
+        return this.corruptKeyCount;
+    }
+
+    /**
+     * Name of the first corrupt key holding any byte of [offset, offset + length), or null if all are valid.
+     */
+    public findCorruptKey(offset: number, length: number): string | null {
+        const firstKey = Math.floor(offset / this.bytesPerKey);
+        const lastKey = Math.floor((offset + Math.max(length, 1) - 1) / this.bytesPerKey);
+
+        for (let keyIndex = firstKey; keyIndex <= lastKey; keyIndex++) {
+            // Anything past the checksummed payload cannot be trusted either
+            if (keyIndex >= this.keyStates.length || this.keyStates[keyIndex] === KEY_CORRUPT) return this.keyName(keyIndex);
+            if (this.keyStates[keyIndex] === KEY_UNVERIFIED)
+                throw new Error(`Key '${this.keyName(keyIndex)}' has not been verified yet.`);
+        }
+        return null;
+    }
+
+    // Returns the decoded length of a valid key, or -1 after reporting why it is corrupt
+    private verifyKey(keyIndex: number): number {
+        const key = this.keyName(keyIndex);
+        const encoded = this.strings[key];
+        const expectedLength = Math.min(this.bytesPerKey, this.payloadLength - keyIndex * this.bytesPerKey);
+        const expectedCharacters = getEncodedLength(this.encoding, expectedLength);
+        let reason: string | null = null;
+
+        if (encoded === undefined) {
+            reason = "key is missing";
+        } else if (encoded.length !== expectedCharacters) {
+            reason = `holds ${encoded.length} characters, expected ${expectedCharacters}`;
+        } else {
+            try {
+                decodeStringKey(this.encoding, encoded, this.decoded);
+                if (updateCrc32(0, this.decoded, expectedLength) !== this.keyCrcs[keyIndex]) reason = "checksum mismatch";
+            } catch (error) {
+                reason = `${error}`;
+            }
+        }
+
+        if (reason === null) return expectedLength;
+        log.parser.error(`Stream '${this.prefix}' key '${key}' is corrupt: ${reason}.`);
+        return -1;
+    }
+
+    private keyName(keyIndex: number): string {
+        return `${this.prefix}${keyIndex.toString(16).toUpperCase()}`;
+    }
+}
+
 type RuntimeSpawnEnum = { [key: string]: number };
 
 const mapSpecificEnums: { [key: string]: RuntimeSpawnEnum | undefined } = {
@@ -291,6 +926,66 @@ const mapSpecificEnums: { [key: string]: RuntimeSpawnEnum | undefined } = {
     Granite: (mod as any)["RuntimeSpawn_Granite_TechCampus_Portal"] ?? (mod.RuntimeSpawn_Granite_TechCenter as any),
 };
 
+/**
+ * Counts every runtime spawned object so the script never pushes the server past the runtime object limit.
+ * All mod.SpawnObject/mod.UnspawnObject calls in this script go through here.
+ */
+class ObjectBudget {
+    private liveCount = 0;
+    private refusedCount = 0;
+
+    constructor(
+        private readonly ceiling: number = OBJECT_BUDGET_CEILING,
+        public readonly policy: ObjectBudgetPolicy = OBJECT_BUDGET_POLICY
+    ) {
+        if (ceiling <= 0 || ceiling > RUNTIME_OBJECT_LIMIT) {
+            throw new Error(`Object budget ceiling ${ceiling} must be between 1 and ${RUNTIME_OBJECT_LIMIT}.`);
+        }
+    }
+
+    public getLiveCount(): number {
+        return this.liveCount;
+    }
+
+    public getCeiling(): number {
+        return this.ceiling;
+    }
+
+    public getRemaining(): number {
+        return Math.max(0, this.ceiling - this.liveCount);
+    }
+
+    public getUsageRatio(): number {
+        return this.liveCount / this.ceiling;
+    }
+
+    public getRefusedCount(): number {
+        return this.refusedCount;
+    }
+
+    public isFull(): boolean {
+        return this.liveCount >= this.ceiling;
+    }
+
+    /**
+     * Spawns the object if the budget allows it. Returns null when the ceiling has been reached.
+     */
+    public spawn(prefab: number, position: mod.Vector, rotation: mod.Vector, scale: mod.Vector): mod.SpatialObject | null {
+        if (this.isFull()) {
+            this.refusedCount++;
+            return null;
+        }
+
+        this.liveCount++;
+        return mod.SpawnObject(prefab as any, position, rotation, scale);
+    }
+
+    public unspawn(handle: mod.SpatialObject): void {
+        mod.UnspawnObject(handle);
+        this.liveCount = Math.max(0, this.liveCount - 1);
+    }
+}
+
 interface ChunkInfo {
     cx: number;
     cy: number;
@@ -299,25 +994,411 @@ interface ChunkInfo {
     length: number;
 }
 
+/**
+ * Positions and type indices of the objects a spawner has created, linked per chunk (newest first) so
+ * spatial queries only visit chunks near the query volume. Index i belongs to the spawner's i-th live handle,
+ * objects are removed in reverse spawn order just like the handles.
+ */
+class SpawnedObjectIndex {
+    public positions: Float32Array;
+    public typeIndices: Uint16Array;
+    public nextInChunk: Int32Array;
+    public readonly chunkHeads: Int32Array;
+    private chunkOf: Uint16Array;
+    public count = 0;
+
+    constructor(
+        public readonly chunkSize: number,
+        public readonly chunks: ReadonlyArray<ChunkInfo>,
+        public readonly typeNames: ReadonlyArray<string>,
+        initialCapacity: number
+    ) {
+        const capacity = Math.max(1, initialCapacity);
+        this.positions = new Float32Array(capacity * 3);
+        this.typeIndices = new Uint16Array(capacity);
+        this.nextInChunk = new Int32Array(capacity);
+        this.chunkOf = new Uint16Array(capacity);
+        this.chunkHeads = new Int32Array(chunks.length).fill(-1);
+    }
+
+    public add(x: number, y: number, z: number, typeIndex: number, chunkIndex: number): void {
+        if (this.count === this.typeIndices.length) this.grow();
+
+        const i = this.count++;
+        this.positions[i * 3] = x;
+        this.positions[i * 3 + 1] = y;
+        this.positions[i * 3 + 2] = z;
+        this.typeIndices[i] = typeIndex;
+        this.chunkOf[i] = chunkIndex;
+        this.nextInChunk[i] = this.chunkHeads[chunkIndex];
+        this.chunkHeads[chunkIndex] = i;
+    }
+
+    // The newest object is always the head of its chunk list
+    public removeLast(): void {
+        if (this.count === 0) return;
+
+        const i = --this.count;
+        this.chunkHeads[this.chunkOf[i]] = this.nextInChunk[i];
+    }
+
+    /**
+     * Finds a chunk by its chunk coordinates. The index is sorted by (x, y, z) so this is a binary search.
+     * Returns -1 if no objects were encoded in that chunk.
+     */
+    public findChunk(cx: number, cy: number, cz: number): number {
+        let low = 0;
+        let high = this.chunks.length - 1;
+
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            const chunk = this.chunks[mid];
+            const order = chunk.cx - cx || chunk.cy - cy || chunk.cz - cz;
+            if (order === 0) return mid;
+            if (order < 0) low = mid + 1;
+            else high = mid - 1;
+        }
+
+        return -1;
+    }
+
+    private grow(): void {
+        const capacity = this.typeIndices.length * 2;
+
+        const positions = new Float32Array(capacity * 3);
+        positions.set(this.positions);
+        this.positions = positions;
+
+        const typeIndices = new Uint16Array(capacity);
+        typeIndices.set(this.typeIndices);
+        this.typeIndices = typeIndices;
+
+        const nextInChunk = new Int32Array(capacity);
+        nextInChunk.set(this.nextInChunk);
+        this.nextInChunk = nextInChunk;
+
+        const chunkOf = new Uint16Array(capacity);
+        chunkOf.set(this.chunkOf);
+        this.chunkOf = chunkOf;
+    }
+}
+
+// Owner filter values for spatial queries, any other value is a team index
+const QUERY_OWNER_ANY = -2;
+const QUERY_OWNER_NONE = -1;
+const QUERY_INITIAL_CAPACITY = 256;
+
+/**
+ * Filter applied to every object a spatial query visits. Build it once with SpatialQuery.createFilter
+ * and reuse it, changing `owner` between calls is fine.
+ */
+interface SpatialQueryFilter {
+    typeMask: Uint8Array | null; // 1 per type palette index that passes, null accepts every type
+    ownership: ReadonlyMap<number, number> | null; // uid to owning team, maintained by the game mode
+    owner: number; // QUERY_OWNER_ANY, QUERY_OWNER_NONE (unowned objects only) or a team index
+}
+
+/**
+ * Sphere, box, cylinder and nearest-N queries over the objects of a spawner, see StreamLayer.getSpatialQuery.
+ * Uids are SpawnedObjectIndex indices, StaticSpatialSpawner.getHandle turns them into spawned objects.
+ * Each query returns the number of matching uids and writes them to `results` (and their squared distances
+ * to `distancesSq` for nearest). Both buffers are reused and only valid until the next query, they only
+ * grow when a query matches more objects than ever before.
+ */
+class SpatialQuery {
+    public results: Uint32Array;
+    public distancesSq: Float32Array;
+
+    private readonly chunkBuffer: Uint32Array;
+    private resultCount = 0;
+
+    constructor(private readonly index: SpawnedObjectIndex, initialCapacity: number = QUERY_INITIAL_CAPACITY) {
+        this.results = new Uint32Array(Math.max(1, initialCapacity));
+        this.distancesSq = new Float32Array(this.results.length);
+        this.chunkBuffer = new Uint32Array(index.chunks.length);
+    }
+
+    /**
+     * Builds a filter. Type names that are not in the type palette are reported and never match.
+     */
+    public createFilter(
+        typeNames: ReadonlyArray<string> | null = null,
+        ownership: ReadonlyMap<number, number> | null = null,
+        owner: number = QUERY_OWNER_ANY
+    ): SpatialQueryFilter {
+        let typeMask: Uint8Array | null = null;
+        if (typeNames !== null) {
+            typeMask = new Uint8Array(this.index.typeNames.length);
+            for (const typeName of typeNames) {
+                const typeIndex = this.index.typeNames.indexOf(typeName);
+                if (typeIndex < 0) log.spawner.warn(`Query type '${typeName}' is not in the type palette.`);
+                else typeMask[typeIndex] = 1;
+            }
+        }
+
+        if (owner !== QUERY_OWNER_ANY && ownership === null) {
+            throw new Error("An owner filter needs an ownership map.");
+        }
+        return { typeMask, ownership, owner };
+    }
+
+    public sphere(x: number, y: number, z: number, radius: number, filter: SpatialQueryFilter | null = null): number {
+        const radiusSq = radius * radius;
+        const chunkCount = this.collectChunks(x - radius, y - radius, z - radius, x + radius, y + radius, z + radius);
+        const positions = this.index.positions;
+        this.resultCount = 0;
+
+        for (let c = 0; c < chunkCount; c++) {
+            const chunkIndex = this.chunkBuffer[c];
+            if (this.chunkDistanceSq(chunkIndex, x, y, z) > radiusSq) continue;
+
+            for (let uid = this.index.chunkHeads[chunkIndex]; uid >= 0; uid = this.index.nextInChunk[uid]) {
+                const dx = positions[uid * 3] - x;
+                const dy = positions[uid * 3 + 1] - y;
+                const dz = positions[uid * 3 + 2] - z;
+                if (dx * dx + dy * dy + dz * dz <= radiusSq && this.matches(uid, filter)) this.push(uid);
+            }
+        }
+
+        return this.resultCount;
+    }
+
+    public box(
+        minX: number,
+        minY: number,
+        minZ: number,
+        maxX: number,
+        maxY: number,
+        maxZ: number,
+        filter: SpatialQueryFilter | null = null
+    ): number {
+        const chunkCount = this.collectChunks(minX, minY, minZ, maxX, maxY, maxZ);
+        const positions = this.index.positions;
+        this.resultCount = 0;
+
+        for (let c = 0; c < chunkCount; c++) {
+            for (let uid = this.index.chunkHeads[this.chunkBuffer[c]]; uid >= 0; uid = this.index.nextInChunk[uid]) {
+                const px = positions[uid * 3];
+                const py = positions[uid * 3 + 1];
+                const pz = positions[uid * 3 + 2];
+                if (px < minX || px > maxX || py < minY || py > maxY || pz < minZ || pz > maxZ) continue;
+                if (this.matches(uid, filter)) this.push(uid);
+            }
+        }
+
+        return this.resultCount;
+    }
+
+    /**
+     * Vertical (Y axis) cylinder around (x, z) spanning minY to maxY.
+     */
+    public cylinder(
+        x: number,
+        z: number,
+        radius: number,
+        minY: number,
+        maxY: number,
+        filter: SpatialQueryFilter | null = null
+    ): number {
+        const radiusSq = radius * radius;
+        const chunkCount = this.collectChunks(x - radius, minY, z - radius, x + radius, maxY, z + radius);
+        const positions = this.index.positions;
+        this.resultCount = 0;
+
+        for (let c = 0; c < chunkCount; c++) {
+            for (let uid = this.index.chunkHeads[this.chunkBuffer[c]]; uid >= 0; uid = this.index.nextInChunk[uid]) {
+                const py = positions[uid * 3 + 1];
+                if (py < minY || py > maxY) continue;
+
+                const dx = positions[uid * 3] - x;
+                const dz = positions[uid * 3 + 2] - z;
+                if (dx * dx + dz * dz <= radiusSq && this.matches(uid, filter)) this.push(uid);
+            }
+        }
+
+        return this.resultCount;
+    }
+
+    /**
+     * Up to `count` objects closest to the point, nearest first. A finite `maxRadius` keeps the search local,
+     * without one every chunk is considered.
+     */
+    public nearest(
+        x: number,
+        y: number,
+        z: number,
+        count: number,
+        maxRadius: number = Number.POSITIVE_INFINITY,
+        filter: SpatialQueryFilter | null = null
+    ): number {
+        this.resultCount = 0;
+        if (count <= 0) return 0;
+        while (this.results.length < count) this.grow();
+
+        let worstSq = maxRadius * maxRadius;
+        const chunkCount = Number.isFinite(maxRadius)
+            ? this.collectChunks(x - maxRadius, y - maxRadius, z - maxRadius, x + maxRadius, y + maxRadius, z + maxRadius)
+            : this.collectAllChunks();
+        const positions = this.index.positions;
+
+        for (let c = 0; c < chunkCount; c++) {
+            const chunkIndex = this.chunkBuffer[c];
+            if (this.chunkDistanceSq(chunkIndex, x, y, z) > worstSq) continue;
+
+            for (let uid = this.index.chunkHeads[chunkIndex]; uid >= 0; uid = this.index.nextInChunk[uid]) {
+                const dx = positions[uid * 3] - x;
+                const dy = positions[uid * 3 + 1] - y;
+                const dz = positions[uid * 3 + 2] - z;
+                const distSq = dx * dx + dy * dy + dz * dz;
+                if (distSq > worstSq || !this.matches(uid, filter)) continue;
+
+                this.insertSorted(uid, distSq, count);
+                if (this.resultCount === count) worstSq = this.distancesSq[count - 1];
+            }
+        }
+
+        return this.resultCount;
+    }
+
+    private matches(uid: number, filter: SpatialQueryFilter | null): boolean {
+        if (filter === null) return true;
+        if (filter.typeMask !== null && filter.typeMask[this.index.typeIndices[uid]] === 0) return false;
+        if (filter.owner === QUERY_OWNER_ANY || filter.ownership === null) return true;
+
+        const owner = filter.ownership.get(uid);
+        return filter.owner === QUERY_OWNER_NONE ? owner === undefined : owner === filter.owner;
+    }
+
+    private push(uid: number): void {
+        if (this.resultCount === this.results.length) this.grow();
+        this.results[this.resultCount++] = uid;
+    }
+
+    // Insertion into the sorted result list, the list is capped at `count` entries
+    private insertSorted(uid: number, distSq: number, count: number): void {
+        let i = this.resultCount < count ? this.resultCount++ : count - 1;
+        while (i > 0 && this.distancesSq[i - 1] > distSq) {
+            this.results[i] = this.results[i - 1];
+            this.distancesSq[i] = this.distancesSq[i - 1];
+            i--;
+        }
+        this.results[i] = uid;
+        this.distancesSq[i] = distSq;
+    }
+
+    private grow(): void {
+        const results = new Uint32Array(this.results.length * 2);
+        results.set(this.results);
+        this.results = results;
+
+        const distancesSq = new Float32Array(results.length);
+        distancesSq.set(this.distancesSq);
+        this.distancesSq = distancesSq;
+    }
+
+    // Fills chunkBuffer with the indices of chunks overlapping the world space box and returns how many there are
+    private collectChunks(minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number): number {
+        const size = this.index.chunkSize;
+        const minCx = Math.floor(minX / size);
+        const minCy = Math.floor(minY / size);
+        const minCz = Math.floor(minZ / size);
+        const maxCx = Math.floor(maxX / size);
+        const maxCy = Math.floor(maxY / size);
+        const maxCz = Math.floor(maxZ / size);
+        const chunks = this.index.chunks;
+        let count = 0;
+
+        // Large volumes cover more cells than there are chunks, scanning the chunk list is cheaper then
+        const cellCount = (maxCx - minCx + 1) * (maxCy - minCy + 1) * (maxCz - minCz + 1);
+        if (cellCount > chunks.length) {
+            for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
+                const chunk = chunks[chunkIndex];
+                if (chunk.cx < minCx || chunk.cx > maxCx || chunk.cy < minCy || chunk.cy > maxCy) continue;
+                if (chunk.cz < minCz || chunk.cz > maxCz) continue;
+                this.chunkBuffer[count++] = chunkIndex;
+            }
+            return count;
+        }
+
+        for (let cx = minCx; cx <= maxCx; cx++) {
+            for (let cy = minCy; cy <= maxCy; cy++) {
+                for (let cz = minCz; cz <= maxCz; cz++) {
+                    const chunkIndex = this.index.findChunk(cx, cy, cz);
+                    if (chunkIndex >= 0) this.chunkBuffer[count++] = chunkIndex;
+                }
+            }
+        }
+        return count;
+    }
+
+    private collectAllChunks(): number {
+        const chunkCount = this.index.chunks.length;
+        for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) this.chunkBuffer[chunkIndex] = chunkIndex;
+        return chunkCount;
+    }
+
+    // Squared distance from a point to the chunk's bounding box, 0 when the point is inside
+    private chunkDistanceSq(chunkIndex: number, x: number, y: number, z: number): number {
+        const size = this.index.chunkSize;
+        const chunk = this.index.chunks[chunkIndex];
+        const minX = chunk.cx * size;
+        const minY = chunk.cy * size;
+        const minZ = chunk.cz * size;
+        const dx = x < minX ? minX - x : x > minX + size ? x - minX - size : 0;
+        const dy = y < minY ? minY - y : y > minY + size ? y - minY - size : 0;
+        const dz = z < minZ ? minZ - z : z > minZ + size ? z - minZ - size : 0;
+        return dx * dx + dy * dy + dz * dz;
+    }
+}
+
 class StaticSpatialSpawner {
-    private readonly reader = new BinaryStreamReader(new RuntimeStringsStream());
+    private readonly budget: ObjectBudget;
+    private readonly stream: RuntimeStringsStream;
+    private readonly reader: BinaryStreamReader;
     private readonly scalePalette: RuntimeVector[];
     private readonly rotationPalette: RuntimeVector[];
     private readonly typePalette: string[];
     private readonly chunks: ChunkInfo[];
     private readonly chunkSize: number;
     private readonly mapEnum: RuntimeSpawnEnum | undefined;
+    private readonly encodedObjectCount: number;
+
+    // Resume state for budgeted spawning. A chunk may be split across several ticks.
+    private readonly chunkOrigin = new RuntimeVector(0, 0, 0);
+    private nextChunkIndex = 0;
+    private pendingChunkObjects = 0;
+    private sequentialSeekPending = false;
+
+    // Chunks already spawned, either sequentially or on demand through spawnChunk
+    private readonly chunkSpawned: Uint8Array;
+    // Chunks stored in keys that failed verification, never spawned
+    private readonly chunkCorrupt: Uint8Array;
+    private readonly onDemandOrigin = new RuntimeVector(0, 0, 0);
+    private lastReportedPercent = -1;
+    private completionReported = false;
 
     private spawnedCount = 0;
     private skippedCount = 0;
-
-    constructor() {
+    private budgetPauseReported = false;
+    private budgetPausedTicks = 0;
+
+    // Handles of everything this spawner created, so the layer can be unloaded again
+    private readonly spawnedHandles: mod.SpatialObject[] = [];
+    // Positions of the spawned objects in handle order, for spatial queries
+    private readonly objects: SpawnedObjectIndex;
+    private query: SpatialQuery | null = null;
+    private currentChunkIndex = 0;
+
+    constructor(budget: ObjectBudget, prefix: string, integrity: StreamIntegrity | null = null) {
+        this.budget = budget;
+        this.stream = new RuntimeStringsStream(prefix);
+        this.reader = new BinaryStreamReader(this.stream);
         const version = this.reader.readUInt16();
         if (version !== FORMAT_VERSION) throw new Error(`Unsupported binary version: ${version}.`);
 
         this.chunkSize = this.reader.readFloat32();
         const mapType = this.reader.readString();
-        const encodedObjectCount = this.reader.readInt32();
+        this.encodedObjectCount = this.reader.readInt32();
         const chunkCount = this.reader.readUInt16();
 
         // Bounds are included for metadata/preallocation. The minimal static spawner does not need them.
@@ -332,6 +1413,8 @@ class StaticSpatialSpawner {
         this.rotationPalette = new Array<RuntimeVector>(rotationPaletteCount);
         this.typePalette = new Array<string>(typePaletteCount);
         this.chunks = new Array<ChunkInfo>(chunkCount);
+        this.chunkSpawned = new Uint8Array(chunkCount);
+        this.chunkCorrupt = new Uint8Array(chunkCount);
         this.mapEnum = mapSpecificEnums[mapType];
 
         for (let i = 0; i < scalePaletteCount; i++) this.scalePalette[i] = this.reader.readFloatVector();
@@ -348,33 +1431,225 @@ class StaticSpatialSpawner {
             };
         }
 
-        console.log(`RuntimeMigrator loaded map=${mapType}, encodedObjects=${encodedObjectCount}, chunks=${chunkCount}.`);
+        this.objects = new SpawnedObjectIndex(
+            this.chunkSize,
+            this.chunks,
+            this.typePalette,
+            Math.min(this.encodedObjectCount, OBJECT_BUDGET_CEILING)
+        );
+        if (integrity) this.markCorruptChunks(integrity);
+
+        log.parser.info(`Loaded map=${mapType}, encodedObjects=${this.encodedObjectCount}, chunks=${chunkCount}.`);
+    }
+
+    private markCorruptChunks(integrity: StreamIntegrity): void {
+        // Checksums cover the stored bytes, which differ from chunk offsets when the payload is compressed
+        const metadataKey = integrity.findCorruptKey(0, this.stream.getStoredEnd(this.reader.totalOffset));
+        if (metadataKey !== null) {
+            throw new Error(`Header, palette or chunk index data is stored in corrupt key '${metadataKey}'.`);
+        }
+
+        for (let i = 0; i < this.chunks.length; i++) {
+            const chunk = this.chunks[i];
+            const storedStart = this.stream.getStoredStart(chunk.offset);
+            const storedLength = this.stream.getStoredEnd(chunk.offset + chunk.length) - storedStart;
+            const corruptKey = integrity.findCorruptKey(storedStart, storedLength);
+            if (corruptKey === null) continue;
+
+            this.chunkCorrupt[i] = 1;
+            log.parser.warn(`Skipping chunk [${chunk.cx},${chunk.cy},${chunk.cz}] stored in corrupt key '${corruptKey}'.`);
+        }
     }
 
     public spawnAll(): void {
-        for (const chunk of this.chunks) {
-            this.spawnChunk(chunk);
+        this.spawnNext(Number.POSITIVE_INFINITY, "chunks");
+    }
+
+    /**
+     * Spawns up to `budget` objects or chunks, resuming from wherever the previous call stopped.
+     * Returns true once every chunk has been spawned.
+     */
+    public spawnNext(budget: number, unit: SpawnBudgetUnit = "objects"): boolean {
+        if (this.isPausedByBudget()) {
+            if (++this.budgetPausedTicks >= BUDGET_QUEUE_TIMEOUT_TICKS) this.skipRemainder();
+            this.reportProgress();
+            return this.isComplete();
+        }
+        this.budgetPausedTicks = 0;
+
+        let spent = 0;
+
+        while (spent < budget && !this.isComplete()) {
+            if (this.isPausedByBudget()) break;
+
+            if (this.pendingChunkObjects === 0) {
+                this.beginChunk(this.nextChunkIndex++);
+            }
+
+            while (this.pendingChunkObjects > 0 && (unit === "chunks" || spent < budget) && !this.isPausedByBudget()) {
+                this.spawnNextObject(this.chunkOrigin, this.currentChunkIndex);
+                this.pendingChunkObjects--;
+                if (unit === "objects") spent++;
+            }
+
+            if (unit === "chunks" && this.pendingChunkObjects === 0) spent++;
         }
 
-        console.log(`RuntimeMigrator static spawn complete. spawned=${this.spawnedCount}, skipped=${this.skippedCount}.`);
+        this.reportProgress();
+        return this.isComplete();
     }
 
-    private spawnChunk(chunk: ChunkInfo): void {
-        if (this.reader.totalOffset !== chunk.offset) {
-            throw new Error(
-                `Chunk offset mismatch for [${chunk.cx},${chunk.cy},${chunk.cz}]: expected ${chunk.offset}, actual ${this.reader.totalOffset}.`
+    /**
+     * In queue mode a full budget leaves the rest of the stream unread until objects are unspawned.
+     */
+    public isPausedByBudget(): boolean {
+        if (this.budget.policy !== "queue" || !this.budget.isFull()) {
+            this.budgetPauseReported = false;
+            return false;
+        }
+
+        if (!this.budgetPauseReported) {
+            this.budgetPauseReported = true;
+            log.spawner.warn(
+                `Static spawn paused: object budget full (${this.budget.getLiveCount()}/${this.budget.getCeiling()}).`
             );
         }
+        return true;
+    }
 
-        const origin = new RuntimeVector(chunk.cx * this.chunkSize, chunk.cy * this.chunkSize, chunk.cz * this.chunkSize);
-        const objectCount = this.reader.readUInt16();
+    public isComplete(): boolean {
+        return this.nextChunkIndex >= this.chunks.length && this.pendingChunkObjects === 0;
+    }
+
+    // Gives up on the unread part of the stream once the budget stayed full for too long
+    private skipRemainder(): void {
+        const remaining = Math.max(0, this.encodedObjectCount - this.spawnedCount - this.skippedCount);
+        log.spawner.warn(
+            `Static spawn waited ${BUDGET_QUEUE_TIMEOUT_TICKS} ticks for object budget, ` +
+                `skipping the remaining ${remaining} objects.`
+        );
+        this.skippedCount += remaining;
+        this.nextChunkIndex = this.chunks.length;
+        this.pendingChunkObjects = 0;
+    }
+
+    /**
+     * Fraction of encoded objects processed so far (spawned or skipped), in the range [0, 1].
+     */
+    public getProgress(): number {
+        // Skipped corrupt chunks never add to the counts, so completion is reported from the cursor
+        if (this.isComplete()) return 1;
+        if (this.encodedObjectCount <= 0) return 0;
+        return Math.min(1, (this.spawnedCount + this.skippedCount) / this.encodedObjectCount);
+    }
+
+    public getSpawnedCount(): number {
+        return this.spawnedCount;
+    }
+
+    public getSkippedCount(): number {
+        return this.skippedCount;
+    }
 
+    private reportProgress(): void {
+        if (this.isComplete()) {
+            if (this.completionReported) return;
+            this.completionReported = true;
+            log.spawner.info(`Static spawn complete. spawned=${this.spawnedCount}, skipped=${this.skippedCount}.`);
+            return;
+        }
+
+        const percent = Math.floor((this.getProgress() * 100) / SPAWN_PROGRESS_STEP) * SPAWN_PROGRESS_STEP;
+        if (percent <= this.lastReportedPercent) return;
+        this.lastReportedPercent = percent;
+        log.spawner.info(`Static spawn progress: ${percent}% (chunk ${this.nextChunkIndex}/${this.chunks.length}).`);
+    }
+
+    /**
+     * Decodes and spawns a single chunk straight from its index entry, without parsing earlier chunks.
+     * The sequential cursor is restored afterwards and will skip this chunk when it reaches it.
+     * Returns false if the chunk had already been spawned or is corrupt.
+     */
+    public spawnChunk(chunkIndex: number): boolean {
+        const chunk = this.chunks[chunkIndex];
+        if (chunk === undefined) throw new Error(`Chunk index ${chunkIndex} is out of range (chunks=${this.chunks.length}).`);
+        if (this.chunkSpawned[chunkIndex] !== 0 || this.chunkCorrupt[chunkIndex] !== 0) return false;
+
+        const resumeOffset = this.reader.totalOffset;
+        this.reader.seek(chunk.offset);
+
+        this.onDemandOrigin.x = chunk.cx * this.chunkSize;
+        this.onDemandOrigin.y = chunk.cy * this.chunkSize;
+        this.onDemandOrigin.z = chunk.cz * this.chunkSize;
+
+        const objectCount = this.reader.readUInt16();
         for (let i = 0; i < objectCount; i++) {
-            this.spawnNextObject(origin);
+            this.spawnNextObject(this.onDemandOrigin, chunkIndex);
+        }
+
+        const bytesRead = this.reader.totalOffset - chunk.offset;
+        if (bytesRead !== chunk.length) {
+            throw new Error(
+                `Chunk length mismatch for [${chunk.cx},${chunk.cy},${chunk.cz}]: ` +
+                    `expected ${chunk.length}, actual ${bytesRead}.`
+            );
+        }
+
+        this.chunkSpawned[chunkIndex] = 1;
+
+        // Between chunks the next one may be corrupt, so it is only sought once the cursor knows it is needed
+        if (this.pendingChunkObjects > 0) this.reader.seek(resumeOffset);
+        else this.sequentialSeekPending = true;
+        return true;
+    }
+
+    /**
+     * Finds a chunk by its chunk coordinates. Returns -1 if no objects were encoded in that chunk.
+     */
+    public findChunkIndex(cx: number, cy: number, cz: number): number {
+        return this.objects.findChunk(cx, cy, cz);
+    }
+
+    /**
+     * Spatial queries over everything this spawner has spawned so far. Created on first use.
+     */
+    public getSpatialQuery(): SpatialQuery {
+        if (!this.query) this.query = new SpatialQuery(this.objects);
+        return this.query;
+    }
+
+    // Spawned object for a uid returned by a spatial query
+    public getHandle(uid: number): mod.SpatialObject | undefined {
+        return this.spawnedHandles[uid];
+    }
+
+    private beginChunk(chunkIndex: number): void {
+        const chunk = this.chunks[chunkIndex];
+
+        if (this.chunkSpawned[chunkIndex] !== 0 || this.chunkCorrupt[chunkIndex] !== 0) {
+            // Spawned on demand already or corrupt, the next sequential chunk has to be found by seeking
+            this.sequentialSeekPending = true;
+            return;
+        }
+
+        if (this.sequentialSeekPending) {
+            this.reader.seek(chunk.offset);
+            this.sequentialSeekPending = false;
+        } else if (this.reader.totalOffset !== chunk.offset) {
+            throw new Error(
+                `Chunk offset mismatch for [${chunk.cx},${chunk.cy},${chunk.cz}]: expected ${chunk.offset}, actual ${this.reader.totalOffset}.`
+            );
         }
+
+        this.chunkOrigin.x = chunk.cx * this.chunkSize;
+        this.chunkOrigin.y = chunk.cy * this.chunkSize;
+        this.chunkOrigin.z = chunk.cz * this.chunkSize;
+        this.currentChunkIndex = chunkIndex;
+        this.pendingChunkObjects = this.reader.readUInt16();
+        this.chunkSpawned[chunkIndex] = 1;
     }
 
-    private spawnNextObject(origin: RuntimeVector): void {
+    private spawnNextObject(origin: RuntimeVector, chunkIndex: number): void {
         const pos = new RuntimeVector(
             origin.x + (this.reader.readUInt16() / MAX_UINT16) * this.chunkSize,
             origin.y + (this.reader.readUInt16() / MAX_UINT16) * this.chunkSize,
@@ -406,26 +1681,220 @@ class StaticSpatialSpawner {
         const typeName = this.typePalette[typeIndex];
         const prefab = this.resolvePrefab(typeName);
         if (prefab === undefined || scale === undefined || rotation === undefined) {
-            console.warn(`Skipping unknown or invalid object type='${typeName}' scaleIndex=${scaleIndex} rotationIndex=${rotationIndex}.`);
+            log.spawner.warn(
+                `Skipping unknown or invalid object type='${typeName}' scaleIndex=${scaleIndex} rotationIndex=${rotationIndex}.`
+            );
             this.skippedCount++;
             return;
         }
 
-        mod.SpawnObject(prefab as any, pos.toModVector(), rotation.toModVector(), scale.toModVector());
+        const handle = this.budget.spawn(prefab, pos.toModVector(), rotation.toModVector(), scale.toModVector());
+        if (handle === null) {
+            this.skippedCount++;
+            return;
+        }
+        this.spawnedHandles.push(handle);
+        this.objects.add(pos.x, pos.y, pos.z, typeIndex, chunkIndex);
         this.spawnedCount++;
     }
 
+    /**
+     * Unspawns up to `count` objects created by this spawner. Returns true once nothing is left.
+     */
+    public unspawnNext(count: number): boolean {
+        for (let i = 0; i < count && this.spawnedHandles.length > 0; i++) {
+            this.budget.unspawn(this.spawnedHandles.pop()!);
+            this.objects.removeLast();
+        }
+        return this.spawnedHandles.length === 0;
+    }
+
     private resolvePrefab(typeName: string): number | undefined {
         if (this.mapEnum && this.mapEnum[typeName] !== undefined) return this.mapEnum[typeName];
         return (mod.RuntimeSpawn_Common as any)[typeName];
     }
 }
 
-export function OnGameModeStarted(): void {
+type StreamLayerState = "unloaded" | "verifying" | "loading" | "loaded" | "unloading";
+
+/**
+ * One independently loadable stream in the strings file. Loading always starts a fresh spawner,
+ * so a layer can be unloaded and loaded again any number of times.
+ */
+class StreamLayer {
+    private state: StreamLayerState = "unloaded";
+    private spawner: StaticSpatialSpawner | null = null;
+    private integrity: StreamIntegrity | null = null;
+
+    constructor(public readonly config: StreamLayerConfig, private readonly budget: ObjectBudget) {}
+
+    public static existsInStrings(prefix: string): boolean {
+        const strings = (mod as any).strings;
+        return typeof strings === "object" && strings !== null && strings[`${prefix}0`] !== undefined;
+    }
+
+    public getState(): StreamLayerState {
+        return this.state;
+    }
+
+    public getProgress(): number {
+        return this.spawner?.getProgress() ?? 0;
+    }
+
+    // Spatial queries over the objects spawned so far, null while nothing has been spawned
+    public getSpatialQuery(): SpatialQuery | null {
+        return this.spawner?.getSpatialQuery() ?? null;
+    }
+
+    public load(): void {
+        if (this.state === "verifying" || this.state === "loading" || this.state === "loaded") return;
+
+        // Anything still spawned from before is dropped first, then spawning restarts from the top of the stream
+        if (this.spawner) this.spawner.unspawnNext(Number.POSITIVE_INFINITY);
+        this.spawner = null;
+
+        log.spawner.info(`Loading layer '${this.config.name}' (${this.config.prefix}).`);
+        this.integrity = StreamIntegrity.load(this.config.prefix);
+        if (this.integrity) {
+            this.state = "verifying";
+        } else {
+            log.parser.warn(`Layer '${this.config.name}' has no checksums, spawning it unverified.`);
+            this.startSpawning();
+        }
+
+        if (SPAWN_MODE === "oneShot") this.update();
+    }
+
+    public unload(): void {
+        if (this.state === "unloaded" || this.state === "unloading") return;
+
+        this.integrity = null;
+        if (!this.spawner) {
+            this.state = "unloaded";
+            return;
+        }
+
+        this.state = "unloading";
+        log.spawner.info(`Unloading layer '${this.config.name}' (${this.config.prefix}).`);
+
+        if (SPAWN_MODE === "oneShot") this.update();
+    }
+
+    public update(): void {
+        if (this.state === "verifying") {
+            const keyBudget = SPAWN_MODE === "oneShot" ? Number.POSITIVE_INFINITY : INTEGRITY_KEYS_PER_TICK;
+            if (!this.integrity!.verifyNext(keyBudget)) return;
+            this.finishVerification();
+        }
+
+        if (!this.spawner) return;
+
+        const budget = SPAWN_MODE === "oneShot" ? Number.POSITIVE_INFINITY : SPAWN_BUDGET_PER_TICK;
+
+        if (this.state === "loading" && this.spawner.spawnNext(budget, SPAWN_BUDGET_UNIT)) {
+            this.state = "loaded";
+        } else if (this.state === "unloading" && this.spawner.unspawnNext(budget)) {
+            this.spawner = null;
+            this.state = "unloaded";
+            log.spawner.info(`Layer '${this.config.name}' (${this.config.prefix}) unloaded.`);
+        }
+    }
+
+    private finishVerification(): void {
+        const integrity = this.integrity!;
+        if (!integrity.isIntact() && INTEGRITY_POLICY === "refuse") {
+            log.parser.error(`Layer '${this.config.name}' (${this.config.prefix}) failed verification, refusing to spawn it.`);
+            this.integrity = null;
+            this.state = "unloaded";
+            return;
+        }
+
+        this.startSpawning();
+    }
+
+    private startSpawning(): void {
+        const integrity = this.integrity && this.integrity.getCorruptKeyCount() > 0 ? this.integrity : null;
+        this.spawner = new StaticSpatialSpawner(this.budget, this.config.prefix, integrity);
+        this.integrity = null;
+        this.state = "loading";
+    }
+}
+
+const streamLayers = new Map<string, StreamLayer>();
+// Shared live object budget. Game mode code can read usage from here to react to a saturated map.
+const objectBudget = new ObjectBudget();
+
+function loadStreamLayer(prefix: string): void {
+    const layer = streamLayers.get(prefix);
+    if (!layer) {
+        log.spawner.warn(`Layer '${prefix}' is not present in the strings file.`);
+        return;
+    }
+
     try {
-        const spawner = new StaticSpatialSpawner();
-        spawner.spawnAll();
+        layer.load();
     } catch (error) {
-        console.error(`RuntimeMigrator static spawner failed: ${error}`);
+        log.spawner.error(`Layer '${prefix}' failed to load: ${error}`);
+        layer.unload();
+    }
+}
+
+function unloadStreamLayer(prefix: string): void {
+    streamLayers.get(prefix)?.unload();
+}
+
+function getStreamLayerState(prefix: string): StreamLayerState | undefined {
+    return streamLayers.get(prefix)?.getState();
+}
+
+function getStreamLayerQuery(prefix: string): SpatialQuery | null {
+    return streamLayers.get(prefix)?.getSpatialQuery() ?? null;
+}
+
+// Loads an unloaded (or unloading) layer, unloads it in any other state
+function toggleStreamLayer(prefix: string): void {
+    const state = getStreamLayerState(prefix);
+    if (state === "unloaded" || state === "unloading") loadStreamLayer(prefix);
+    else if (state !== undefined) unloadStreamLayer(prefix);
+}
+
+export function OnGameModeStarted(): void {
+    for (const config of STREAM_LAYERS) {
+        if (streamLayers.has(config.prefix)) {
+            log.spawner.error(`Duplicate stream layer prefix '${config.prefix}', ignoring '${config.name}'.`);
+            continue;
+        }
+        if (!StreamLayer.existsInStrings(config.prefix)) continue;
+        streamLayers.set(config.prefix, new StreamLayer(config, objectBudget));
+    }
+
+    for (const config of STREAM_LAYERS) {
+        if (config.loadOnStart) loadStreamLayer(config.prefix);
+    }
+}
+
+/**
+ * Budgeted mode driver. Spawns or unspawns a fixed slice of every changing layer each tick.
+ */
+export function OngoingGlobal(): void {
+    updateLogging();
+    for (const layer of streamLayers.values()) {
+        try {
+            layer.update();
+        } catch (error) {
+            log.spawner.error(`Layer '${layer.config.prefix}' failed: ${error}`);
+            layer.unload();
+        }
+    }
+}
+
+// Layers with a toggleInteractPointId are loaded and unloaded from their interact point
+export function OnPlayerInteract(player: mod.Player, interactPoint: mod.InteractPoint): void {
+    const interactPointId = mod.GetObjId(interactPoint);
+    for (const layer of streamLayers.values()) {
+        if (layer.config.toggleInteractPointId !== interactPointId) continue;
+
+        log.spawner.info(`Player ${mod.GetObjId(player)} toggled layer '${layer.config.name}'.`);
+        toggleStreamLayer(layer.config.prefix);
     }
 }
@@ -6,6 +6,233 @@ import * as modlib from "modlib";
 // See the LICENSE file in the project root for full license information.
 const STR_CHUNK_SIZE = 200; // Number of encoded characters per string chunk
 const DECODE_CHUNK_SIZE = STR_CHUNK_SIZE / 2; // Number of decoded bytes per character chunk
+const MAX_DECODE_CHUNK_SIZE = (STR_CHUNK_SIZE / 4) * 3; // Largest decoded chunk of any supported encoding
+// Optional marker key declaring the encoding of a stream, e.g. A_enc = "base64". Streams without one are base16
+const STRING_ENCODING_SUFFIX = "_enc";
+
+type StringEncoding = "base16" | "base64";
+
+// A payload starting with a uint16 that has this flag set is a compressed container instead of a plain binary stream
+const COMPRESSED_PAYLOAD_FLAG = 0x8000;
+const COMPRESSED_CONTAINER_VERSION = 1;
+const MAX_COMPRESSED_BLOCK_SIZE = 4096;
+
+// Optional tuning overrides stored as a JSON object in the strings file, so variants only need a new strings file:
+//   "config": "{\"playerCapRadius\": 20, \"matchTimeLimitSeconds\": 900}"
+// Long blocks can continue in config1, config2, ... Invalid values are reported and replaced by their default.
+const RUNTIME_CONFIG_KEY = "config";
+
+/**
+ * Reads typed values from the runtime config block. Each tuning constant is read once at startup with its default,
+ * so the defaults stay next to the constants they configure.
+ */
+class RuntimeConfig {
+    private readonly values: { [key: string]: unknown } = {};
+    private readonly usedKeys = new Set<string>();
+
+    constructor(key: string) {
+        const strings = (mod as any).strings;
+        if (typeof strings !== "object" || strings === null || typeof strings[key] !== "string") return;
+
+        let text = strings[key] as string;
+        for (let part = 1; typeof strings[`${key}${part}`] === "string"; part++) text += strings[`${key}${part}`];
+
+        try {
+            const parsed = JSON.parse(text);
+            if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+                throw new Error("expected a JSON object");
+            }
+            this.values = parsed;
+            console.log(`Runtime config '${key}' loaded with ${Object.keys(parsed).length} value(s).`);
+        } catch (error) {
+            console.error(`Runtime config '${key}' is invalid and ignored: ${error}`);
+        }
+    }
+
+    public number(key: string, defaultValue: number, min: number = -Infinity, max: number = Infinity): number {
+        return this.read(key, defaultValue, `a number between ${min} and ${max}`, (value): value is number => {
+            return typeof value === "number" && value >= min && value <= max;
+        });
+    }
+
+    public integer(key: string, defaultValue: number, min: number = -Infinity, max: number = Infinity): number {
+        return this.read(key, defaultValue, `an integer between ${min} and ${max}`, (value): value is number => {
+            return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+        });
+    }
+
+    public boolean(key: string, defaultValue: boolean): boolean {
+        return this.read(key, defaultValue, "true or false", (value): value is boolean => typeof value === "boolean");
+    }
+
+    public oneOf<T extends string>(key: string, defaultValue: T, options: ReadonlyArray<T>): T {
+        return this.read(key, defaultValue, `one of ${options.join(", ")}`, (value): value is T => {
+            return typeof value === "string" && options.indexOf(value as T) >= 0;
+        });
+    }
+
+    // Two numbers where the second must not be smaller than the first. An invalid pair falls back to both defaults.
+    public numberPair(
+        lowKey: string,
+        highKey: string,
+        lowDefault: number,
+        highDefault: number,
+        min: number = -Infinity
+    ): [number, number] {
+        const low = this.number(lowKey, lowDefault, min);
+        const high = this.number(highKey, highDefault, min);
+        if (high >= low) return [low, high];
+
+        console.error(
+            `Runtime config '${highKey}' (${high}) must not be smaller than '${lowKey}' (${low}). Using the defaults for both.`
+        );
+        return [lowDefault, highDefault];
+    }
+
+    // Values with a shape of their own, checked by isValid and described by expected in the error
+    public read<T>(key: string, defaultValue: T, expected: string, isValid: (value: unknown) => value is T): T {
+        this.usedKeys.add(key);
+        const value = this.values[key];
+        if (value === undefined) return defaultValue;
+        if (isValid(value)) return value;
+
+        console.error(`Runtime config '${key}' is ${JSON.stringify(value)}, expected ${expected}. Using the default.`);
+        return defaultValue;
+    }
+
+    // Reports keys no constant has read, usually typos. Call once all constants are initialised.
+    public reportUnknownKeys(): void {
+        for (const key of Object.keys(this.values)) {
+            if (!this.usedKeys.has(key)) console.warn(`Runtime config key '${key}' is unknown and ignored.`);
+        }
+    }
+}
+
+function isNumberArray(value: unknown, length?: number): value is number[] {
+    return (
+        Array.isArray(value) &&
+        (length === undefined || value.length === length) &&
+        value.every((item) => typeof item === "number")
+    );
+}
+
+const runtimeConfig = new RuntimeConfig(RUNTIME_CONFIG_KEY);
+
+// Logging is split into categories with a level each. Messages above a category's level are dropped before their
+// text is built, the rest are rate limited per category so a misbehaving hot path can not flood the log.
+type LogLevel = "off" | "error" | "warn" | "info" | "debug";
+type LogCategory = "parser" | "spawner" | "ownership" | "vehicles" | "hud" | "game";
+
+const LOG_LEVELS: ReadonlyArray<LogLevel> = ["off", "error", "warn", "info", "debug"];
+const LOG_CATEGORIES: ReadonlyArray<LogCategory> = ["parser", "spawner", "ownership", "vehicles", "hud", "game"];
+
+// Most verbose level written by every category, e.g. "logCategoryLevels": {"vehicles": "debug"} overrides one
+const LOG_LEVEL = runtimeConfig.oneOf<LogLevel>("logLevel", "info", LOG_LEVELS);
+const LOG_CATEGORY_LEVELS = runtimeConfig.read<{ [category: string]: LogLevel }>(
+    "logCategoryLevels",
+    {},
+    `an object mapping ${LOG_CATEGORIES.join(", ")} to one of ${LOG_LEVELS.join(", ")}`,
+    (value): value is { [category: string]: LogLevel } =>
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.keys(value).every(
+            (key) =>
+                LOG_CATEGORIES.indexOf(key as LogCategory) >= 0 &&
+                LOG_LEVELS.indexOf((value as { [key: string]: unknown })[key] as LogLevel) >= 0
+        )
+);
+// Messages a category may write per window, the rest are counted and summarised once the window ends
+const LOG_MESSAGES_PER_WINDOW = runtimeConfig.integer("logMessagesPerWindow", 20, 1);
+const LOG_WINDOW_TICKS = 30;
+
+const LOG_RANK_ERROR = 1;
+const LOG_RANK_WARN = 2;
+const LOG_RANK_INFO = 3;
+const LOG_RANK_DEBUG = 4;
+
+function noLog(_message: string): void {}
+
+let logTick = 0;
+
+/**
+ * Writes the messages of one category. Methods of levels the category does not write are the shared noLog, and hot
+ * paths check debugEnabled before building a message, so disabled logging costs a single branch per call site.
+ */
+class Logger {
+    public readonly error: (message: string) => void;
+    public readonly warn: (message: string) => void;
+    public readonly info: (message: string) => void;
+    public readonly debug: (message: string) => void;
+    public readonly debugEnabled: boolean;
+
+    private windowStart = 0;
+    private writtenInWindow = 0;
+    private suppressedInWindow = 0;
+    private suppressedCount = 0;
+
+    constructor(readonly category: LogCategory, level: LogLevel) {
+        const rank = LOG_LEVELS.indexOf(level);
+        this.error = rank >= LOG_RANK_ERROR ? (message) => this.write(LOG_RANK_ERROR, message) : noLog;
+        this.warn = rank >= LOG_RANK_WARN ? (message) => this.write(LOG_RANK_WARN, message) : noLog;
+        this.info = rank >= LOG_RANK_INFO ? (message) => this.write(LOG_RANK_INFO, message) : noLog;
+        this.debug = rank >= LOG_RANK_DEBUG ? (message) => this.write(LOG_RANK_DEBUG, message) : noLog;
+        this.debugEnabled = rank >= LOG_RANK_DEBUG;
+    }
+
+    // Messages dropped by the rate limit so far
+    public getSuppressedCount(): number {
+        return this.suppressedCount;
+    }
+
+    // Starts a new window once the current one is over, reporting what the last one dropped
+    public update(): void {
+        if (logTick - this.windowStart < LOG_WINDOW_TICKS) return;
+
+        if (this.suppressedInWindow > 0) {
+            console.warn(`[${this.category}] ${this.suppressedInWindow} message(s) suppressed by the rate limit.`);
+        }
+        this.windowStart = logTick;
+        this.writtenInWindow = 0;
+        this.suppressedInWindow = 0;
+    }
+
+    private write(rank: number, message: string): void {
+        if (this.writtenInWindow >= LOG_MESSAGES_PER_WINDOW) {
+            this.suppressedInWindow++;
+            this.suppressedCount++;
+            return;
+        }
+        this.writtenInWindow++;
+
+        const line = `[${this.category}] ${message}`;
+        if (rank === LOG_RANK_ERROR) console.error(line);
+        else if (rank === LOG_RANK_WARN) console.warn(line);
+        else console.log(line);
+    }
+}
+
+const log: { readonly [category in LogCategory]: Logger } = {
+    parser: new Logger("parser", LOG_CATEGORY_LEVELS.parser ?? LOG_LEVEL),
+    spawner: new Logger("spawner", LOG_CATEGORY_LEVELS.spawner ?? LOG_LEVEL),
+    ownership: new Logger("ownership", LOG_CATEGORY_LEVELS.ownership ?? LOG_LEVEL),
+    vehicles: new Logger("vehicles", LOG_CATEGORY_LEVELS.vehicles ?? LOG_LEVEL),
+    hud: new Logger("hud", LOG_CATEGORY_LEVELS.hud ?? LOG_LEVEL),
+    game: new Logger("game", LOG_CATEGORY_LEVELS.game ?? LOG_LEVEL),
+};
+
+// Advances the log clock, call once per tick
+function updateLogging(): void {
+    logTick++;
+    for (const category of LOG_CATEGORIES) log[category].update();
+}
+
+// Messages dropped by the rate limit across all categories
+function getSuppressedLogCount(): number {
+    let total = 0;
+    for (const category of LOG_CATEGORIES) total += log[category].getSuppressedCount();
+    return total;
+}
 
 const CUSTOM_BASE16_TABLE = "_-,.:`~'+=^%<}] ";
 const CUSTOM_BASE16_MAP = new Array<number>(128).fill(-1);
@@ -39,25 +266,172 @@ function decodeCustomBase16(data: string, outData: Uint8Array): number {
     return decodedLength;
 }
 
+// URL-safe base64 alphabet without padding, avoids the quote, backslash and brace characters
+const BASE64_TABLE = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+const BASE64_MAP = new Array<number>(128).fill(-1);
+
+for (let i = 0; i < BASE64_TABLE.length; i++) {
+    BASE64_MAP[BASE64_TABLE.charCodeAt(i)] = i;
+}
+
+function decodeBase64(data: string, outData: Uint8Array): number {
+    const remainder = data.length & 3;
+    if (remainder === 1) throw new Error("Base64 string length is invalid.");
+
+    const decodedLength = (data.length >> 2) * 3 + (remainder === 0 ? 0 : remainder - 1);
+
+    if (outData.length < decodedLength) throw new Error("Data buffer too small for decoded output.");
+
+    let bits = 0;
+    let bitCount = 0;
+    for (let i = 0, j = 0; i < data.length; i++) {
+        const charCode = data.charCodeAt(i);
+        const value = charCode < 128 ? BASE64_MAP[charCode]! : -1;
+        if (value === -1) throw new Error(`Invalid base64 character at index ${i}.`);
+
+        bits = (bits << 6) | value;
+        bitCount += 6;
+        if (bitCount >= 8) {
+            bitCount -= 8;
+            outData[j++] = (bits >> bitCount) & 0xff;
+            bits &= (1 << bitCount) - 1;
+        }
+    }
+    return decodedLength;
+}
+
+function getStringEncoding(strings: { [key: string]: string }, prefix: string): StringEncoding {
+    const marker = strings[`${prefix}${STRING_ENCODING_SUFFIX}`];
+    if (marker === undefined || marker === "base16") return "base16";
+    if (marker === "base64") return "base64";
+    throw new Error(`Stream '${prefix}' declares unsupported encoding '${marker}'.`);
+}
+
+// Number of bytes a full STR_CHUNK_SIZE key decodes to
+function getDecodedChunkSize(encoding: StringEncoding): number {
+    return encoding === "base64" ? MAX_DECODE_CHUNK_SIZE : DECODE_CHUNK_SIZE;
+}
+
+function getEncodedLength(encoding: StringEncoding, byteLength: number): number {
+    return encoding === "base64" ? Math.ceil((byteLength * 4) / 3) : byteLength * 2;
+}
+
+function decodeStringChunk(encoding: StringEncoding, data: string, outData: Uint8Array): number {
+    return encoding === "base64" ? decodeBase64(data, outData) : decodeCustomBase16(data, outData);
+}
+
+const CRC32_TABLE = new Uint32Array(256);
+
+for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    CRC32_TABLE[n] = c >>> 0;
+}
+
+// Continues a CRC32 (IEEE) over the first `length` bytes. Pass 0 to start a new checksum.
+function updateCrc32(crc: number, bytes: Uint8Array, length: number): number {
+    let c = ~crc;
+    for (let i = 0; i < length; i++) c = CRC32_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return ~c >>> 0;
+}
+
+// Worst case size of a compressed block: an all-literal sequence plus its length bytes
+function maxCompressedBlockLength(blockSize: number): number {
+    return blockSize + Math.ceil(blockSize / 255) + 16;
+}
+
+/**
+ * Decompresses one LZ77 block (LZ4 block layout) into `output` and returns the decompressed length.
+ * Each sequence is a token (literal length high nibble, match length - 4 low nibble, 15 = extended by
+ * following bytes), the literals, then a uint16 match offset and extended match length. The last sequence
+ * has literals only. Matches never reach outside the block, so blocks decompress independently.
+ */
+function decompressBlock(input: Uint8Array, inputLength: number, output: Uint8Array): number {
+    let src = 0;
+    let dst = 0;
+
+    while (src < inputLength) {
+        const token = input[src++];
+
+        let literalLength = token >>> 4;
+        if (literalLength === 15) {
+            let extra = 255;
+            while (extra === 255) {
+                if (src >= inputLength) throw new Error("Compressed block ends inside a literal length.");
+                extra = input[src++];
+                literalLength += extra;
+            }
+        }
+
+        if (src + literalLength > inputLength || dst + literalLength > output.length) {
+            throw new Error("Compressed block literals overrun the block.");
+        }
+        output.set(input.subarray(src, src + literalLength), dst);
+        src += literalLength;
+        dst += literalLength;
+
+        if (src >= inputLength) break;
+
+        if (src + 2 > inputLength) throw new Error("Compressed block ends inside a match offset.");
+        const matchOffset = input[src] | (input[src + 1] << 8);
+        src += 2;
+
+        let matchLength = (token & 15) + 4;
+        if ((token & 15) === 15) {
+            let extra = 255;
+            while (extra === 255) {
+                if (src >= inputLength) throw new Error("Compressed block ends inside a match length.");
+                extra = input[src++];
+                matchLength += extra;
+            }
+        }
+
+        if (matchOffset === 0 || matchOffset > dst || dst + matchLength > output.length) {
+            throw new Error(`Compressed block has an invalid match (offset ${matchOffset}, length ${matchLength}).`);
+        }
+
+        // Byte by byte, a match may overlap the bytes it is producing
+        for (let i = 0; i < matchLength; i++, dst++) output[dst] = output[dst - matchOffset];
+    }
+
+    return dst;
+}
+
 // This class reads binary data stored in the runtime strings object in chunks.
-// It decodes the custom base16 encoding used to store binary data in strings.
+// It decodes the custom base16 (or the denser base64, declared by a marker key) encoding used to store binary data in strings.
 // Memory usage is minimized by reusing a fixed size buffer for chunk decoding.
 // since the current limitation overall is runtime memory usage
+// Compressed payloads are decompressed one block at a time for the same reason, offsets are always uncompressed.
 class SpatialSteamReader {
     private readonly strings: { [key: string]: string };
     private chunkIndex = 0;
     private initialized = false;
-    private chunkData: Uint8Array = new Uint8Array(DECODE_CHUNK_SIZE);
+    private chunkData: Uint8Array = new Uint8Array(MAX_DECODE_CHUNK_SIZE);
+    private readonly encoding: StringEncoding;
+    private readonly chunkSize: number;
     private currentChunkLength: number = 0;
     private chunkOffset = 0;
     private streamPrefix: string;
     public eof = false;
 
-    constructor(steamPrefix: string = "A") {
+    // Compressed container state, see openPayload
+    private payloadOpened = false;
+    private blockSize = 0;
+    private rawLength = 0;
+    private blockOffsets: Uint32Array | null = null;
+    private blockBuffer: Uint8Array | null = null;
+    private compressedBuffer: Uint8Array | null = null;
+    private blockIndex = -1;
+    private blockLength = 0;
+    private blockPosition = 0;
+
+    constructor(steamPrefix: string = "A", private readonly detectCompression = true) {
         this.strings = (mod as any).strings;
         if (typeof this.strings !== "object" || this.strings === null)
             throw new Error("Runtime object 'mod.strings' is not available.");
         this.streamPrefix = steamPrefix;
+        this.encoding = getStringEncoding(this.strings, steamPrefix);
+        this.chunkSize = getDecodedChunkSize(this.encoding);
     }
 
     private updateDataChunk(): boolean {
@@ -68,18 +442,178 @@ class SpatialSteamReader {
 
         if (chunkStr === undefined) {
             this.eof = true;
-            console.log(`EOF reached at chunk index ${this.chunkIndex}`);
+            if (log.parser.debugEnabled) log.parser.debug(`EOF reached at chunk index ${this.chunkIndex}`);
             return true;
         }
 
-        this.currentChunkLength = decodeCustomBase16(chunkStr, this.chunkData);
+        try {
+            this.currentChunkLength = decodeStringChunk(this.encoding, chunkStr, this.chunkData);
+        } catch (error) {
+            throw new Error(`Key '${key}' could not be decoded: ${error}`);
+        }
         this.chunkOffset = 0;
         this.chunkIndex++;
         this.initialized = true;
         return false;
     }
 
+    /**
+     * Moves the read position to an absolute byte offset in the decoded (uncompressed) stream.
+     */
+    public seek(byteOffset: number): void {
+        this.openPayload();
+        if (!this.blockOffsets) {
+            this.seekStored(byteOffset);
+            return;
+        }
+
+        if (byteOffset > this.rawLength) {
+            throw new Error(`Seek offset ${byteOffset} is past the end of stream '${this.streamPrefix}'.`);
+        }
+
+        const blockIndex = Math.min(Math.floor(byteOffset / this.blockSize), this.blockOffsets.length - 2);
+        if (blockIndex !== this.blockIndex) this.loadBlock(blockIndex);
+        this.blockPosition = byteOffset - blockIndex * this.blockSize;
+    }
+
     public read(byteCount: number): Uint8Array | null {
+        this.openPayload();
+        if (!this.blockOffsets) return this.readStored(byteCount);
+
+        if (this.blockPosition >= this.blockLength && !this.loadBlock(this.blockIndex + 1)) return null;
+
+        // Served from the current block only, the next block is decompressed once its bytes are needed
+        const available = Math.min(byteCount, this.blockLength - this.blockPosition);
+        const resultBuffer = this.blockBuffer!.slice(this.blockPosition, this.blockPosition + available);
+        this.blockPosition += available;
+        return resultBuffer;
+    }
+
+    // Maps the uncompressed byte range [offset, end) to the stored bytes holding it, for checksum lookups
+    public getStoredStart(offset: number): number {
+        this.openPayload();
+        if (!this.blockOffsets) return offset;
+        return this.blockOffsets[Math.floor(offset / this.blockSize)];
+    }
+
+    public getStoredEnd(end: number): number {
+        this.openPayload();
+        if (!this.blockOffsets) return end;
+        if (end <= 0) return this.blockOffsets[0];
+        return this.blockOffsets[Math.floor((end - 1) / this.blockSize) + 1];
+    }
+
+    // Checks the container flag on first use and reads the block table of a compressed payload
+    private openPayload(): void {
+        if (this.payloadOpened) return;
+        this.payloadOpened = true;
+        if (!this.detectCompression) return;
+
+        const marker = this.readStored(2);
+        if (marker === null || marker.length < 2 || (marker[1] & 0x80) === 0) {
+            this.seekStored(0);
+            return;
+        }
+
+        const containerVersion = (marker[0] | (marker[1] << 8)) & ~COMPRESSED_PAYLOAD_FLAG;
+        if (containerVersion !== COMPRESSED_CONTAINER_VERSION) {
+            throw new Error(`Unsupported compressed container version ${containerVersion} in stream '${this.streamPrefix}'.`);
+        }
+
+        const header = this.readStoredExactly(10);
+        const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+        this.rawLength = view.getUint32(0, true);
+        this.blockSize = view.getUint16(4, true);
+        const blockCount = view.getUint32(6, true);
+
+        if (this.blockSize === 0 || this.blockSize > MAX_COMPRESSED_BLOCK_SIZE) {
+            throw new Error(`Compressed block size ${this.blockSize} is outside 1..${MAX_COMPRESSED_BLOCK_SIZE}.`);
+        }
+        if (blockCount !== Math.ceil(this.rawLength / this.blockSize)) {
+            throw new Error(`Compressed block count ${blockCount} does not match raw length ${this.rawLength}.`);
+        }
+
+        const offsets = this.readStoredExactly((blockCount + 1) * 4);
+        const offsetView = new DataView(offsets.buffer, offsets.byteOffset, offsets.byteLength);
+        this.blockOffsets = new Uint32Array(blockCount + 1);
+        for (let i = 0; i <= blockCount; i++) this.blockOffsets[i] = offsetView.getUint32(i * 4, true);
+
+        this.blockBuffer = new Uint8Array(this.blockSize);
+        this.compressedBuffer = new Uint8Array(maxCompressedBlockLength(this.blockSize));
+        log.parser.info(`Stream '${this.streamPrefix}' is compressed: ${this.rawLength} bytes in ${blockCount} blocks.`);
+    }
+
+    // Decompresses one block into the block buffer. Returns false past the last block.
+    private loadBlock(blockIndex: number): boolean {
+        const offsets = this.blockOffsets!;
+        if (blockIndex >= offsets.length - 1) return false;
+
+        const start = offsets[blockIndex];
+        const compressedLength = offsets[blockIndex + 1] - start;
+        if (compressedLength <= 0 || compressedLength > this.compressedBuffer!.length) {
+            throw new Error(
+                `Compressed block ${blockIndex} of stream '${this.streamPrefix}' has invalid length ${compressedLength}.`
+            );
+        }
+
+        if (this.getStoredPosition() !== start) this.seekStored(start);
+        let copied = 0;
+        while (copied < compressedLength) {
+            const part = this.readStored(compressedLength - copied);
+            if (part === null) throw new Error(`Compressed block ${blockIndex} of stream '${this.streamPrefix}' is truncated.`);
+            this.compressedBuffer!.set(part, copied);
+            copied += part.length;
+        }
+
+        const expectedLength = Math.min(this.blockSize, this.rawLength - blockIndex * this.blockSize);
+        this.blockLength = decompressBlock(this.compressedBuffer!, compressedLength, this.blockBuffer!);
+        if (this.blockLength !== expectedLength) {
+            throw new Error(
+                `Compressed block ${blockIndex} of stream '${this.streamPrefix}' decoded to ${this.blockLength} bytes, ` +
+                    `expected ${expectedLength}.`
+            );
+        }
+
+        this.blockIndex = blockIndex;
+        this.blockPosition = 0;
+        return true;
+    }
+
+    private readStoredExactly(byteCount: number): Uint8Array {
+        const resultBuffer = new Uint8Array(byteCount);
+        let copied = 0;
+        while (copied < byteCount) {
+            const part = this.readStored(byteCount - copied);
+            if (part === null) throw new Error(`Compressed container header of stream '${this.streamPrefix}' is truncated.`);
+            resultBuffer.set(part, copied);
+            copied += part.length;
+        }
+        return resultBuffer;
+    }
+
+    private getStoredPosition(): number {
+        if (!this.initialized) return 0;
+        return (this.chunkIndex - 1) * this.chunkSize + this.chunkOffset;
+    }
+
+    // Every key except the last decodes to exactly chunkSize bytes, so the key can be found by division
+    // instead of decoding every earlier key.
+    private seekStored(byteOffset: number): void {
+        const keyIndex = Math.floor(byteOffset / this.chunkSize);
+        this.chunkIndex = keyIndex;
+        this.eof = false;
+
+        if (this.updateDataChunk()) {
+            throw new Error(`Seek offset ${byteOffset} is past the end of stream '${this.streamPrefix}'.`);
+        }
+
+        this.chunkOffset = byteOffset - keyIndex * this.chunkSize;
+        if (this.chunkOffset > this.currentChunkLength) {
+            throw new Error(`Seek offset ${byteOffset} is past the end of key index ${keyIndex}.`);
+        }
+    }
+
+    private readStored(byteCount: number): Uint8Array | null {
         if (this.eof && (this.chunkData === null || this.chunkOffset >= this.chunkData.length)) {
             return null;
         }
@@ -89,6 +623,9 @@ class SpatialSteamReader {
 
         while (bytesCopied < byteCount) {
             if (!this.initialized || this.chunkOffset >= this.currentChunkLength) {
+                // Never decode a key before its bytes are needed, the next key may belong to a corrupt chunk
+                if (bytesCopied > 0) return resultBuffer.subarray(0, bytesCopied);
+
                 const eof = this.updateDataChunk();
                 if (eof) {
                     return bytesCopied > 0 ? resultBuffer.subarray(0, bytesCopied) : null;
@@ -154,10 +691,21 @@ class AsyncBinaryReader {
         }
 
         if (this.bufLength - this.bufOffset < byteCount) {
-            throw new Error(`Unexpected EOF: need ${byteCount}, have ${this.bufLength - this.bufOffset}`);
+            throw new Error(
+                `Unexpected EOF at offset ${this.totalOffset}: need ${byteCount}, have ${this.bufLength - this.bufOffset}`
+            );
         }
     }
 
+    // Jumps to an absolute offset in the binary payload, discarding anything buffered
+    public seek(offset: number): void {
+        this.stringReader.seek(offset);
+        this.bufOffset = 0;
+        this.bufLength = 0;
+        this._isStringReaderEof = false;
+        this.totalOffset = offset;
+    }
+
     private readRaw(size: number): number {
         this.ensureData(size);
         const off = this.bufOffset;
@@ -272,6 +820,195 @@ function decodeUTF8(bytes: Uint8Array, start: number, length: number): string {
     return String.fromCharCode(...chars);
 }
 
+// Checksum sidecar stream of a layer, e.g. keys A_crc0, A_crc1, ... for layer A
+const CHECKSUM_STREAM_SUFFIX = "_crc";
+const INTEGRITY_KEYS_PER_TICK = 40;
+/**
+ * What happens when a stream fails verification.
+ * - refuse: nothing from the stream is spawned
+ * - skipChunk: only chunks stored in corrupt keys are dropped. Corrupt header, palette or chunk index data
+ *   still refuses the stream, nothing after it can be trusted.
+ */
+const INTEGRITY_POLICY = runtimeConfig.oneOf<IntegrityPolicy>("integrityPolicy", "skipChunk", ["refuse", "skipChunk"]);
+
+type IntegrityPolicy = "refuse" | "skipChunk";
+
+const KEY_UNVERIFIED = 0;
+const KEY_VALID = 1;
+const KEY_CORRUPT = 2;
+
+/**
+ * Verifies a stream against the checksum sidecar written by the converter. The sidecar payload is
+ * uint32 payloadLength, uint32 keyCount, uint32 CRC32 of the whole payload, then a uint32 CRC32 per key
+ * over that key's decoded bytes. Keys are verified a few per tick so large maps stay under the loop limit.
+ */
+class StreamIntegrity {
+    private readonly strings: { [key: string]: string };
+    private readonly encoding: StringEncoding;
+    private readonly chunkSize: number;
+    private readonly decoded = new Uint8Array(MAX_DECODE_CHUNK_SIZE);
+    private readonly payloadLength: number;
+    private readonly streamCrc: number;
+    private readonly keyCrcs: Uint32Array;
+    private readonly keyStates: Uint8Array;
+    private nextKey = 0;
+    private runningCrc = 0;
+    private corruptKeyCount = 0;
+    private complete = false;
+    private intact = false;
+
+    private constructor(private readonly prefix: string, reader: AsyncBinaryReader) {
+        this.strings = (mod as any).strings;
+        this.encoding = getStringEncoding(this.strings, prefix);
+        this.chunkSize = getDecodedChunkSize(this.encoding);
+        this.payloadLength = reader.readUInt32();
+        const keyCount = reader.readUInt32();
+        this.streamCrc = reader.readUInt32();
+
+        if (keyCount !== Math.ceil(this.payloadLength / this.chunkSize)) {
+            throw new Error(`key count ${keyCount} does not match payload length ${this.payloadLength}.`);
+        }
+
+        this.keyCrcs = new Uint32Array(keyCount);
+        this.keyStates = new Uint8Array(keyCount);
+        for (let i = 0; i < keyCount; i++) this.keyCrcs[i] = reader.readUInt32();
+    }
+
+    // Reads the checksum table of a stream, or returns null if the strings file has none for it
+    public static load(prefix: string): StreamIntegrity | null {
+        const checksumPrefix = `${prefix}${CHECKSUM_STREAM_SUFFIX}`;
+        if (!StreamLayer.existsInStrings(checksumPrefix)) return null;
+
+        try {
+            return new StreamIntegrity(prefix, new AsyncBinaryReader(new SpatialSteamReader(checksumPrefix, false)));
+        } catch (error) {
+            throw new Error(`Checksum table '${checksumPrefix}' is unreadable: ${error}`);
+        }
+    }
+
+    /**
+     * Verifies up to `keyBudget` more keys. Returns true once the whole stream has been checked.
+     */
+    public verifyNext(keyBudget: number): boolean {
+        if (this.complete) return true;
+
+        const end = Math.min(this.nextKey + keyBudget, this.keyStates.length);
+        for (; this.nextKey < end; this.nextKey++) {
+            const length = this.verifyKey(this.nextKey);
+            if (length < 0) {
+                this.keyStates[this.nextKey] = KEY_CORRUPT;
+                this.corruptKeyCount++;
+            } else {
+                this.keyStates[this.nextKey] = KEY_VALID;
+                this.runningCrc = updateCrc32(this.runningCrc, this.decoded, length);
+            }
+        }
+
+        if (this.nextKey < this.keyStates.length) return false;
+
+        this.complete = true;
+        this.intact = this.corruptKeyCount === 0;
+
+        const trailingKey = this.keyName(this.keyStates.length);
+        if (this.strings[trailingKey] !== undefined) {
+            log.parser.error(`Stream '${this.prefix}' has unexpected key '${trailingKey}' past the end of the payload.`);
+            this.intact = false;
+        }
+        if (this.corruptKeyCount === 0 && this.runningCrc !== this.streamCrc) {
+            log.parser.error(`Stream '${this.prefix}' failed the whole-stream checksum.`);
+            this.intact = false;
+        }
+        if (this.corruptKeyCount > 0) {
+            log.parser.error(`Stream '${this.prefix}' has ${this.corruptKeyCount}/${this.keyStates.length} corrupt keys.`);
+        }
+        return true;
+    }
+
+    public isIntact(): boolean {
+        return this.intact;
+    }
+
+    public getCorruptKeyCount(): number {
+        return this.corruptKeyCount;
+    }
+
+    /**
+     * Name of the first corrupt key holding any byte of [offset, offset + length), or null if all are valid.
+     */
+    public findCorruptKey(offset: number, length: number): string | null {
+        const firstKey = Math.floor(offset / this.chunkSize);
+        const lastKey = Math.floor((offset + Math.max(length, 1) - 1) / this.chunkSize);
+
+        for (let keyIndex = firstKey; keyIndex <= lastKey; keyIndex++) {
+            // Anything past the checksummed payload cannot be trusted either
+            if (keyIndex >= this.keyStates.length || this.keyStates[keyIndex] === KEY_CORRUPT) return this.keyName(keyIndex);
+            if (this.keyStates[keyIndex] === KEY_UNVERIFIED)
+                throw new Error(`Key '${this.keyName(keyIndex)}' has not been verified yet.`);
+        }
+        return null;
+    }
+
+    // Returns the decoded length of a valid key, or -1 after reporting why it is corrupt
+    private verifyKey(keyIndex: number): number {
+        const key = this.keyName(keyIndex);
+        const encoded = this.strings[key];
+        const expectedLength = Math.min(this.chunkSize, this.payloadLength - keyIndex * this.chunkSize);
+        const expectedCharacters = getEncodedLength(this.encoding, expectedLength);
+        let reason: string | null = null;
+
+        if (encoded === undefined) {
+            reason = "key is missing";
+        } else if (encoded.length !== expectedCharacters) {
+            reason = `holds ${encoded.length} characters, expected ${expectedCharacters}`;
+        } else {
+            try {
+                decodeStringChunk(this.encoding, encoded, this.decoded);
+                if (updateCrc32(0, this.decoded, expectedLength) !== this.keyCrcs[keyIndex]) reason = "checksum mismatch";
+            } catch (error) {
+                reason = `${error}`;
+            }
+        }
+
+        if (reason === null) return expectedLength;
+        log.parser.error(`Stream '${this.prefix}' key '${key}' is corrupt: ${reason}.`);
+        return -1;
+    }
+
+    private keyName(keyIndex: number): string {
+        return `${this.prefix}${keyIndex.toString(16).toUpperCase()}`;
+    }
+}
+
+// Verifies a stream in slices and hands the result over once done, honouring INTEGRITY_POLICY.
+// Without a checksum table the stream is accepted unverified.
+class StreamVerification {
+    private readonly integrity: StreamIntegrity | null;
+
+    constructor(public readonly prefix: string) {
+        this.integrity = StreamIntegrity.load(prefix);
+        if (!this.integrity) log.parser.warn(`Stream '${prefix}' has no checksums, loading it unverified.`);
+    }
+
+    /**
+     * Returns "pending" while keys remain, then "accepted" or "refused". Accepted streams with corrupt
+     * keys expose them through getCorruptChunkFilter so the parser can skip the affected chunks.
+     */
+    public update(): "pending" | "accepted" | "refused" {
+        if (!this.integrity) return "accepted";
+        if (!this.integrity.verifyNext(INTEGRITY_KEYS_PER_TICK)) return "pending";
+
+        if (!this.integrity.isIntact() && INTEGRITY_POLICY === "refuse") {
+            log.parser.error(`Stream '${this.prefix}' failed verification, refusing to load it.`);
+            return "refused";
+        }
+        return "accepted";
+    }
+
+    public getCorruptChunkFilter(): StreamIntegrity | null {
+        return this.integrity && this.integrity.getCorruptKeyCount() > 0 ? this.integrity : null;
+    }
+}
+
 // TODO - Currently missing the mp_granite map enum that are also missing from the SDK
 const mapTypeToEnum: { [key: string]: any } = {
     Abbasid: mod.RuntimeSpawn_Abbasid,
@@ -306,16 +1043,6 @@ const ZeroVector = new Vector(0, 0, 0);
 const ModZeroVector = mod.CreateVector(0, 0, 0);
 const ModOneVector = mod.CreateVector(1, 1, 1);
 
-interface SpatialObject {
-    uid: number;
-    typeId: number;
-    position: Vector; // Used for spatial distance calculations during object capture
-    // Pre-computed mod.Vector instances for efficient spawning (avoids repeated conversions)
-    modPosition: mod.Vector;
-    modScale: mod.Vector;
-    modRotation: mod.Vector;
-}
-
 interface ChunkInfo {
     cx: number;
     cy: number;
@@ -324,67 +1051,601 @@ interface ChunkInfo {
     length: number;
 }
 
-interface ObjectSpan {
-    start: number;
-    end: number;
+// A single decoded object record, positions are already converted to world space.
+// Palette backed scale/rotation values are copied in as well so visitors never need the palettes.
+interface ObjectRecord {
+    x: number;
+    y: number;
+    z: number;
+    scaleIndex: number; // Palette index, or CUSTOM_PALETTE_SENTINEL for inline values
+    sx: number;
+    sy: number;
+    sz: number;
+    rotationIndex: number; // Palette index, or CUSTOM_PALETTE_SENTINEL for inline values
+    rx: number;
+    ry: number;
+    rz: number;
+    typeIndex: number;
 }
 
-class MapObjectData {
-    public readonly chunkObjects: Array<SpatialObject>;
-    public readonly chunkSegments: Map<string, ObjectSpan>;
-    public readonly chunkSize: number;
-    public readonly objectCount: number;
-    public readonly uidToChunk: Map<number, string>;
+const CUSTOM_PALETTE_SENTINEL = 255;
 
-    constructor(
-        chunkObjects: Array<SpatialObject>,
-        chunkSegments: Map<string, ObjectSpan>,
-        chunkSize: number,
-        uidToChunk: Map<number, string>
-    ) {
-        this.chunkObjects = chunkObjects;
-        this.chunkSegments = chunkSegments;
-        this.chunkSize = chunkSize;
-        this.objectCount = chunkObjects.length;
-        this.uidToChunk = uidToChunk;
-    }
+// Packs int16 chunk coordinates into a single number so chunk lookups never allocate key strings
+function packChunkKey(cx: number, cy: number, cz: number): number {
+    return ((cx + 32768) * 65536 + (cy + 32768)) * 65536 + (cz + 32768);
 }
 
-/**
- * Manages incremental parsing of binary data.
- * Processes a fixed number of chunks per update cycle to avoid loop execution limits.
- */
-class IncrementalDataParser {
-    private reader: AsyncBinaryReader;
-    private chunkInfos: ChunkInfo[];
-    private scalePalette: Vector[];
-    private rotationPalette: Vector[];
-    private typePalette: string[];
-    private chunkObjects: SpatialObject[];
-    private chunkMap: Map<string, ObjectSpan> = new Map();
-    private uidToChunk: Map<number, string> = new Map();
-    private chunkSize: number = 0;
-    private mapSpecificEnum: any = null;
+// Growable storage for x, y, z float triplets. Starts out holding the encoded palette,
+// inline (sentinel) values from object records are appended behind it.
+class Vector3List {
+    private data: Float32Array;
+    public count = 0;
 
-    private headerParsed = false;
-    private currentChunkIndex = 0;
-    private currentObjectCount = 0;
-    private isComplete = false;
+    constructor(initialCapacity: number) {
+        this.data = new Float32Array(Math.max(1, initialCapacity) * 3);
+    }
 
-    // Not currently used but may be useful for bounds checking
-    private chunksMinBounds: Vector = ZeroVector;
-    private chunksMaxBounds: Vector = ZeroVector;
+    public push(x: number, y: number, z: number): number {
+        if ((this.count + 1) * 3 > this.data.length) {
+            const grown = new Float32Array(this.data.length * 2);
+            grown.set(this.data);
+            this.data = grown;
+        }
 
-    private readonly CHUNKS_PER_CYCLE = 2;
-    private readonly MaxUint16 = 65535.0;
-    private readonly ScaleMax = 100.0;
+        const i = this.count * 3;
+        this.data[i] = x;
+        this.data[i + 1] = y;
+        this.data[i + 2] = z;
+        return this.count++;
+    }
+
+    public getX(index: number): number {
+        return this.data[index * 3];
+    }
+
+    public getY(index: number): number {
+        return this.data[index * 3 + 1];
+    }
+
+    public getZ(index: number): number {
+        return this.data[index * 3 + 2];
+    }
+
+    // Copies out exactly the used portion so spare growth capacity is released
+    public toArray(): Float32Array {
+        return this.data.slice(0, this.count * 3);
+    }
+}
+
+/**
+ * Parsed map objects stored as struct-of-arrays, indexed by uid.
+ * Nothing here holds a mod.Vector, those are only created when an object is actually spawned.
+ */
+class MapObjectData {
+    public readonly mapType: string;
+    public readonly chunkSize: number;
+    public readonly objectCount: number;
+
+    // Per object, indexed by uid (positions by uid * 3)
+    public readonly positions: Float32Array;
+    public readonly typeIndices: Uint16Array;
+    public readonly scaleIndices: Uint16Array | Uint32Array;
+    public readonly rotationIndices: Uint16Array | Uint32Array;
+    public readonly chunkIds: Uint16Array;
+
+    // Palettes. Scales and rotations include inline values appended behind the encoded palette.
+    public readonly scales: Float32Array;
+    public readonly rotations: Float32Array;
+    public readonly typeNames: ReadonlyArray<string>;
+    public readonly typePrefabs: ReadonlyArray<number | undefined>; // Resolved runtime spawn id per type index
+
+    // Per chunk, indexed by chunk id. Objects of a chunk occupy the uid range [chunkStarts, chunkEnds).
+    public readonly chunkCount: number;
+    public readonly chunkCoords: Int16Array; // cx, cy, cz per chunk
+    public readonly chunkStarts: Uint32Array;
+    public readonly chunkEnds: Uint32Array;
+    // World-space bounds of the encoded objects from the header
+    public readonly minBounds: Vector;
+    public readonly maxBounds: Vector;
+    private readonly chunkIdByKey: Map<number, number>;
+
+    constructor(init: {
+        mapType: string;
+        chunkSize: number;
+        objectCount: number;
+        positions: Float32Array;
+        typeIndices: Uint16Array;
+        scaleIndices: Uint16Array | Uint32Array;
+        rotationIndices: Uint16Array | Uint32Array;
+        chunkIds: Uint16Array;
+        scales: Float32Array;
+        rotations: Float32Array;
+        typeNames: string[];
+        typePrefabs: Array<number | undefined>;
+        chunkCoords: Int16Array;
+        chunkStarts: Uint32Array;
+        chunkEnds: Uint32Array;
+        minBounds: Vector;
+        maxBounds: Vector;
+    }) {
+        this.mapType = init.mapType;
+        this.chunkSize = init.chunkSize;
+        this.objectCount = init.objectCount;
+        this.positions = init.positions;
+        this.typeIndices = init.typeIndices;
+        this.scaleIndices = init.scaleIndices;
+        this.rotationIndices = init.rotationIndices;
+        this.chunkIds = init.chunkIds;
+        this.scales = init.scales;
+        this.rotations = init.rotations;
+        this.typeNames = init.typeNames;
+        this.typePrefabs = init.typePrefabs;
+        this.chunkCoords = init.chunkCoords;
+        this.chunkStarts = init.chunkStarts;
+        this.chunkEnds = init.chunkEnds;
+        this.chunkCount = init.chunkStarts.length;
+        this.minBounds = init.minBounds;
+        this.maxBounds = init.maxBounds;
+
+        this.chunkIdByKey = new Map();
+        for (let chunkId = 0; chunkId < this.chunkCount; chunkId++) {
+            const c = chunkId * 3;
+            this.chunkIdByKey.set(packChunkKey(this.chunkCoords[c], this.chunkCoords[c + 1], this.chunkCoords[c + 2]), chunkId);
+        }
+    }
+
+    // Chunk id for the given chunk coordinates, or -1 if no objects were encoded there
+    public getChunkId(cx: number, cy: number, cz: number): number {
+        return this.chunkIdByKey.get(packChunkKey(cx, cy, cz)) ?? -1;
+    }
+
+    public getX(uid: number): number {
+        return this.positions[uid * 3];
+    }
+
+    public getY(uid: number): number {
+        return this.positions[uid * 3 + 1];
+    }
+
+    public getZ(uid: number): number {
+        return this.positions[uid * 3 + 2];
+    }
+
+    // Authored runtime spawn id of the object
+    public getTypeId(uid: number): number {
+        return this.typePrefabs[this.typeIndices[uid]]!;
+    }
+
+    public getTypeName(uid: number): string {
+        return this.typeNames[this.typeIndices[uid]];
+    }
+
+    public createModPosition(uid: number): mod.Vector {
+        const i = uid * 3;
+        return mod.CreateVector(this.positions[i], this.positions[i + 1], this.positions[i + 2]);
+    }
+
+    public createModScale(uid: number): mod.Vector {
+        const i = this.scaleIndices[uid] * 3;
+        return mod.CreateVector(this.scales[i], this.scales[i + 1], this.scales[i + 2]);
+    }
+
+    public createModRotation(uid: number): mod.Vector {
+        const i = this.rotationIndices[uid] * 3;
+        return mod.CreateVector(this.rotations[i], this.rotations[i + 1], this.rotations[i + 2]);
+    }
+}
+
+// Owner filter values for spatial queries, any other value is a team index
+const QUERY_OWNER_ANY = -2;
+const QUERY_OWNER_NONE = -1;
+const QUERY_INITIAL_CAPACITY = 256;
+
+/**
+ * Filter applied to every object a spatial query visits. Build it once with SpatialQuery.createFilter
+ * and reuse it, changing `owner` between calls is fine.
+ */
+interface SpatialQueryFilter {
+    typeMask: Uint8Array | null; // 1 per type palette index that passes, null accepts every type
+    ownership: ReadonlyMap<number, number> | null; // uid to owning team, e.g. DynamicObjectManager.getObjectOwnership()
+    owner: number; // QUERY_OWNER_ANY, QUERY_OWNER_NONE (unowned objects only) or a team index
+}
+
+/**
+ * Sphere, box, cylinder and nearest-N queries over MapObjectData.
+ * Candidate chunks are looked up by chunk coordinates, so only objects near the query volume are tested.
+ * Each query returns the number of matching uids and writes them to `results` (and their squared distances
+ * to `distancesSq` for nearest). Both buffers are reused and only valid until the next query, they only
+ * grow when a query matches more objects than ever before.
+ */
+class SpatialQuery {
+    public results: Uint32Array;
+    public distancesSq: Float32Array;
+
+    private readonly chunkBuffer: Uint32Array;
+    private resultCount = 0;
+
+    constructor(private readonly data: MapObjectData, initialCapacity: number = QUERY_INITIAL_CAPACITY) {
+        this.results = new Uint32Array(Math.max(1, initialCapacity));
+        this.distancesSq = new Float32Array(this.results.length);
+        this.chunkBuffer = new Uint32Array(data.chunkCount);
+    }
+
+    /**
+     * Builds a filter. Type names that are not in the type palette are reported and never match.
+     */
+    public createFilter(
+        typeNames: ReadonlyArray<string> | null = null,
+        ownership: ReadonlyMap<number, number> | null = null,
+        owner: number = QUERY_OWNER_ANY
+    ): SpatialQueryFilter {
+        let typeMask: Uint8Array | null = null;
+        if (typeNames !== null) {
+            typeMask = new Uint8Array(this.data.typeNames.length);
+            for (const typeName of typeNames) {
+                const typeIndex = this.data.typeNames.indexOf(typeName);
+                if (typeIndex < 0) log.ownership.warn(`Spatial query type '${typeName}' is not in the type palette.`);
+                else typeMask[typeIndex] = 1;
+            }
+        }
+
+        if (owner !== QUERY_OWNER_ANY && ownership === null) {
+            throw new Error("An owner filter needs an ownership map.");
+        }
+        return { typeMask, ownership, owner };
+    }
+
+    public sphere(x: number, y: number, z: number, radius: number, filter: SpatialQueryFilter | null = null): number {
+        const radiusSq = radius * radius;
+        const chunkCount = this.collectChunks(x - radius, y - radius, z - radius, x + radius, y + radius, z + radius);
+        const positions = this.data.positions;
+        this.resultCount = 0;
+
+        for (let c = 0; c < chunkCount; c++) {
+            const chunkId = this.chunkBuffer[c];
+            if (this.chunkDistanceSq(chunkId, x, y, z) > radiusSq) continue;
+
+            const end = this.data.chunkEnds[chunkId];
+            for (let uid = this.data.chunkStarts[chunkId]; uid < end; uid++) {
+                const dx = positions[uid * 3] - x;
+                const dy = positions[uid * 3 + 1] - y;
+                const dz = positions[uid * 3 + 2] - z;
+                if (dx * dx + dy * dy + dz * dz <= radiusSq && this.matches(uid, filter)) this.push(uid);
+            }
+        }
+
+        return this.resultCount;
+    }
+
+    public box(
+        minX: number,
+        minY: number,
+        minZ: number,
+        maxX: number,
+        maxY: number,
+        maxZ: number,
+        filter: SpatialQueryFilter | null = null
+    ): number {
+        const chunkCount = this.collectChunks(minX, minY, minZ, maxX, maxY, maxZ);
+        const positions = this.data.positions;
+        this.resultCount = 0;
+
+        for (let c = 0; c < chunkCount; c++) {
+            const chunkId = this.chunkBuffer[c];
+            const end = this.data.chunkEnds[chunkId];
+            for (let uid = this.data.chunkStarts[chunkId]; uid < end; uid++) {
+                const px = positions[uid * 3];
+                const py = positions[uid * 3 + 1];
+                const pz = positions[uid * 3 + 2];
+                if (px < minX || px > maxX || py < minY || py > maxY || pz < minZ || pz > maxZ) continue;
+                if (this.matches(uid, filter)) this.push(uid);
+            }
+        }
+
+        return this.resultCount;
+    }
+
+    /**
+     * Vertical (Y axis) cylinder around (x, z) spanning minY to maxY.
+     */
+    public cylinder(
+        x: number,
+        z: number,
+        radius: number,
+        minY: number,
+        maxY: number,
+        filter: SpatialQueryFilter | null = null
+    ): number {
+        const radiusSq = radius * radius;
+        const chunkCount = this.collectChunks(x - radius, minY, z - radius, x + radius, maxY, z + radius);
+        const positions = this.data.positions;
+        this.resultCount = 0;
+
+        for (let c = 0; c < chunkCount; c++) {
+            const chunkId = this.chunkBuffer[c];
+            const end = this.data.chunkEnds[chunkId];
+            for (let uid = this.data.chunkStarts[chunkId]; uid < end; uid++) {
+                const py = positions[uid * 3 + 1];
+                if (py < minY || py > maxY) continue;
+
+                const dx = positions[uid * 3] - x;
+                const dz = positions[uid * 3 + 2] - z;
+                if (dx * dx + dz * dz <= radiusSq && this.matches(uid, filter)) this.push(uid);
+            }
+        }
+
+        return this.resultCount;
+    }
+
+    /**
+     * Up to `count` objects closest to the point, nearest first. A finite `maxRadius` keeps the search local,
+     * without one every chunk is considered.
+     */
+    public nearest(
+        x: number,
+        y: number,
+        z: number,
+        count: number,
+        maxRadius: number = Number.POSITIVE_INFINITY,
+        filter: SpatialQueryFilter | null = null
+    ): number {
+        this.resultCount = 0;
+        if (count <= 0) return 0;
+        while (this.results.length < count) this.grow();
+
+        let worstSq = maxRadius * maxRadius;
+        const chunkCount = Number.isFinite(maxRadius)
+            ? this.collectChunks(x - maxRadius, y - maxRadius, z - maxRadius, x + maxRadius, y + maxRadius, z + maxRadius)
+            : this.collectAllChunks();
+        const positions = this.data.positions;
+
+        for (let c = 0; c < chunkCount; c++) {
+            const chunkId = this.chunkBuffer[c];
+            if (this.chunkDistanceSq(chunkId, x, y, z) > worstSq) continue;
+
+            const end = this.data.chunkEnds[chunkId];
+            for (let uid = this.data.chunkStarts[chunkId]; uid < end; uid++) {
+                const dx = positions[uid * 3] - x;
+                const dy = positions[uid * 3 + 1] - y;
+                const dz = positions[uid * 3 + 2] - z;
+                const distSq = dx * dx + dy * dy + dz * dz;
+                if (distSq > worstSq || !this.matches(uid, filter)) continue;
+
+                this.insertSorted(uid, distSq, count);
+                if (this.resultCount === count) worstSq = this.distancesSq[count - 1];
+            }
+        }
+
+        return this.resultCount;
+    }
+
+    private matches(uid: number, filter: SpatialQueryFilter | null): boolean {
+        if (filter === null) return true;
+        if (filter.typeMask !== null && filter.typeMask[this.data.typeIndices[uid]] === 0) return false;
+        if (filter.owner === QUERY_OWNER_ANY || filter.ownership === null) return true;
+
+        const owner = filter.ownership.get(uid);
+        return filter.owner === QUERY_OWNER_NONE ? owner === undefined : owner === filter.owner;
+    }
+
+    private push(uid: number): void {
+        if (this.resultCount === this.results.length) this.grow();
+        this.results[this.resultCount++] = uid;
+    }
+
+    // Insertion into the sorted result list, the list is capped at `count` entries
+    private insertSorted(uid: number, distSq: number, count: number): void {
+        let i = this.resultCount < count ? this.resultCount++ : count - 1;
+        while (i > 0 && this.distancesSq[i - 1] > distSq) {
+            this.results[i] = this.results[i - 1];
+            this.distancesSq[i] = this.distancesSq[i - 1];
+            i--;
+        }
+        this.results[i] = uid;
+        this.distancesSq[i] = distSq;
+    }
+
+    private grow(): void {
+        const results = new Uint32Array(this.results.length * 2);
+        results.set(this.results);
+        this.results = results;
+
+        const distancesSq = new Float32Array(results.length);
+        distancesSq.set(this.distancesSq);
+        this.distancesSq = distancesSq;
+    }
+
+    // Fills chunkBuffer with the ids of chunks overlapping the world space box and returns how many there are
+    private collectChunks(minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number): number {
+        const size = this.data.chunkSize;
+        const minCx = Math.floor(minX / size);
+        const minCy = Math.floor(minY / size);
+        const minCz = Math.floor(minZ / size);
+        const maxCx = Math.floor(maxX / size);
+        const maxCy = Math.floor(maxY / size);
+        const maxCz = Math.floor(maxZ / size);
+        let count = 0;
+
+        // Large volumes cover more cells than there are chunks, scanning the chunk list is cheaper then
+        const cellCount = (maxCx - minCx + 1) * (maxCy - minCy + 1) * (maxCz - minCz + 1);
+        if (cellCount > this.data.chunkCount) {
+            const coords = this.data.chunkCoords;
+            for (let chunkId = 0; chunkId < this.data.chunkCount; chunkId++) {
+                const cx = coords[chunkId * 3];
+                const cy = coords[chunkId * 3 + 1];
+                const cz = coords[chunkId * 3 + 2];
+                if (cx < minCx || cx > maxCx || cy < minCy || cy > maxCy || cz < minCz || cz > maxCz) continue;
+                this.chunkBuffer[count++] = chunkId;
+            }
+            return count;
+        }
+
+        for (let cx = minCx; cx <= maxCx; cx++) {
+            for (let cy = minCy; cy <= maxCy; cy++) {
+                for (let cz = minCz; cz <= maxCz; cz++) {
+                    const chunkId = this.data.getChunkId(cx, cy, cz);
+                    if (chunkId >= 0) this.chunkBuffer[count++] = chunkId;
+                }
+            }
+        }
+        return count;
+    }
+
+    private collectAllChunks(): number {
+        for (let chunkId = 0; chunkId < this.data.chunkCount; chunkId++) this.chunkBuffer[chunkId] = chunkId;
+        return this.data.chunkCount;
+    }
+
+    // Squared distance from a point to the chunk's bounding box, 0 when the point is inside
+    private chunkDistanceSq(chunkId: number, x: number, y: number, z: number): number {
+        const size = this.data.chunkSize;
+        const minX = this.data.chunkCoords[chunkId * 3] * size;
+        const minY = this.data.chunkCoords[chunkId * 3 + 1] * size;
+        const minZ = this.data.chunkCoords[chunkId * 3 + 2] * size;
+        const dx = x < minX ? minX - x : x > minX + size ? x - minX - size : 0;
+        const dy = y < minY ? minY - y : y > minY + size ? y - minY - size : 0;
+        const dz = z < minZ ? minZ - z : z > minZ + size ? z - minZ - size : 0;
+        return dx * dx + dy * dy + dz * dz;
+    }
+}
+
+// Game mode hooks. Team arguments are team indices, CAPTURE_TEAM_NONE for neutral.
+interface GameEventHandlers {
+    // Header and palettes of a stream were read, objectCount is the encoded count before unknown types are skipped
+    onHeaderParsed(prefix: string, mapType: string, objectCount: number, chunkCount: number): void;
+    // A chunk was parsed into the uid range [firstUid, endUid)
+    onChunkParsed(prefix: string, chunkId: number, firstUid: number, endUid: number): void;
+    onParseComplete(prefix: string, objectCount: number): void;
+    // A territory object was spawned, as typeId
+    onObjectSpawned(uid: number, typeId: number): void;
+    // A territory object changed owner, through capture, decay (toTeam is neutral) or a round reset.
+    // playerId is the player credited with the capture, NO_PLAYER for vehicles, decay and resets.
+    onObjectCaptured(uid: number, fromTeam: number, toTeam: number, playerId: number): void;
+    // The team owning the most objects of a chunk changed, neutral while nobody owns any or the lead is shared
+    onChunkOwnershipChanged(chunkId: number, fromTeam: number, toTeam: number): void;
+    // A spawn was requested while the object budget was full
+    onBudgetExceeded(outcome: "queued" | "evicted" | "refused", liveCount: number): void;
+}
+
+type GameEventName = keyof GameEventHandlers;
+
+/**
+ * Typed event bus for game mode code. Handlers can be registered at any time, including before parsing starts.
+ * Emitting sites check has() first, so an event nobody listens to costs a single lookup and allocates nothing.
+ */
+class GameEventBus {
+    private readonly handlers: { [E in GameEventName]?: ReadonlyArray<GameEventHandlers[E]> } = {};
+
+    public on<E extends GameEventName>(event: E, handler: GameEventHandlers[E]): void {
+        // Handler lists are copied on change so handlers can register or unregister while an event is emitted
+        const list: ReadonlyArray<GameEventHandlers[E]> = this.handlers[event] ?? [];
+        this.handlers[event] = [...list, handler] as (typeof this.handlers)[E];
+    }
+
+    public off<E extends GameEventName>(event: E, handler: GameEventHandlers[E]): void {
+        const list: ReadonlyArray<GameEventHandlers[E]> | undefined = this.handlers[event];
+        if (list === undefined) return;
+        this.handlers[event] = list.filter((h) => h !== handler) as (typeof this.handlers)[E];
+    }
+
+    public has(event: GameEventName): boolean {
+        const list = this.handlers[event];
+        return list !== undefined && list.length > 0;
+    }
+
+    // A failing handler is reported and does not stop the others or the caller
+    public emit<E extends GameEventName>(event: E, ...args: Parameters<GameEventHandlers[E]>): void {
+        const list = this.handlers[event];
+        if (list === undefined) return;
+
+        for (let i = 0; i < list.length; i++) {
+            try {
+                (list[i] as (...handlerArgs: Parameters<GameEventHandlers[E]>) => void)(...args);
+            } catch (error) {
+                log.game.error(`Event '${event}' handler failed: ${error}`);
+            }
+        }
+    }
+}
+
+// Shared bus, register handlers on it from game mode code
+const gameEvents = new GameEventBus();
+
+// Chunks parsed per tick, higher loads faster but risks the runtime iteration limit on dense chunks
+const PARSE_CHUNKS_PER_CYCLE = runtimeConfig.integer("parseChunksPerCycle", 2, 1, 64);
+
+/**
+ * Manages incremental parsing of binary data.
+ * Processes a fixed number of chunks per update cycle to avoid loop execution limits.
+ */
+class IncrementalDataParser {
+    private stream: SpatialSteamReader;
+    private reader: AsyncBinaryReader;
+    private chunkInfos: ChunkInfo[];
+    private scalePalette: Vector3List;
+    private rotationPalette: Vector3List;
+    private scalePaletteCount: number;
+    private rotationPaletteCount: number;
+    private typePalette: string[];
+    private typePrefabs: Array<number | undefined>;
+    private chunkSize: number = 0;
+    private mapType: string;
+    private mapSpecificEnum: any = null;
+
+    // Struct-of-arrays object storage, filled in uid order while parsing
+    private positions: Float32Array;
+    private typeIndices: Uint16Array;
+    private scaleIndices: Uint16Array | Uint32Array;
+    private rotationIndices: Uint16Array | Uint32Array;
+    private chunkIds: Uint16Array;
+    private chunkCoords: Int16Array;
+    private chunkStarts: Uint32Array;
+    private chunkEnds: Uint32Array;
+
+    // Chunks stored in keys that failed verification. Parsing seeks past them.
+    private chunkCorrupt: Uint8Array;
+    private seekPending = false;
+
+    // Scratch record reused for every decoded object
+    private readonly record: ObjectRecord = {
+        x: 0,
+        y: 0,
+        z: 0,
+        scaleIndex: 0,
+        sx: 0,
+        sy: 0,
+        sz: 0,
+        rotationIndex: 0,
+        rx: 0,
+        ry: 0,
+        rz: 0,
+        typeIndex: 0,
+    };
+
+    private headerParsed = false;
+    private currentChunkIndex = 0;
+    private currentObjectCount = 0;
+    private skippedObjectCount = 0;
+    private isComplete = false;
+
+    // World-space bounds of the encoded objects
+    private chunksMinBounds: Vector = ZeroVector;
+    private chunksMaxBounds: Vector = ZeroVector;
+
+    private readonly CHUNKS_PER_CYCLE = PARSE_CHUNKS_PER_CYCLE;
+    private readonly MaxUint16 = 65535.0;
+    private readonly ScaleMax = 100.0;
     private readonly RotationRange = Math.PI * 2;
     private readonly RotationOffset = Math.PI;
 
-    constructor() {
-        this.reader = new AsyncBinaryReader(new SpatialSteamReader());
+    constructor(
+        private readonly streamPrefix: string = TERRITORY_LAYER_PREFIX,
+        private readonly corruptChunkFilter: StreamIntegrity | null = null
+    ) {
+        this.stream = new SpatialSteamReader(streamPrefix);
+        this.reader = new AsyncBinaryReader(this.stream);
 
-        console.log("Parsing stream header and palettes...");
+        log.parser.info("Parsing stream header and palettes...");
 
         // Parse the header and palette data
         const version = this.reader.readUInt16();
@@ -392,8 +1653,8 @@ class IncrementalDataParser {
 
         // Read all header fields
         this.chunkSize = this.reader.readFloat32();
-        const mapType = this.reader.readString();
-        this.mapSpecificEnum = mapTypeToEnum[mapType];
+        this.mapType = this.reader.readString();
+        this.mapSpecificEnum = mapTypeToEnum[this.mapType];
 
         // All object counts are read first so we can preallocate arrays
         const objectCount = this.reader.readInt32();
@@ -402,31 +1663,55 @@ class IncrementalDataParser {
         this.chunksMinBounds = this.reader.readFloatVector();
         this.chunksMaxBounds = this.reader.readFloatVector();
 
-        const scalePaletteCount = this.reader.readUInt16();
-        const rotationPaletteCount = this.reader.readUInt16();
+        this.scalePaletteCount = this.reader.readUInt16();
+        this.rotationPaletteCount = this.reader.readUInt16();
 
         const typePaletteCount = this.reader.readUInt16();
 
-        this.chunkObjects = new Array<SpatialObject>(objectCount);
-        this.scalePalette = new Array<Vector>(scalePaletteCount);
-        this.rotationPalette = new Array<Vector>(rotationPaletteCount);
+        this.scalePalette = new Vector3List(this.scalePaletteCount);
+        this.rotationPalette = new Vector3List(this.rotationPaletteCount);
         this.typePalette = new Array<string>(typePaletteCount);
+        this.typePrefabs = new Array<number | undefined>(typePaletteCount);
         this.chunkInfos = new Array<ChunkInfo>(chunkCount);
+
+        // Inline scales/rotations are appended to the palettes, so the worst case index is palette + object count
+        this.positions = new Float32Array(objectCount * 3);
+        this.typeIndices = new Uint16Array(objectCount);
+        this.scaleIndices = this.createIndexArray(this.scalePaletteCount + objectCount, objectCount);
+        this.rotationIndices = this.createIndexArray(this.rotationPaletteCount + objectCount, objectCount);
+        this.chunkIds = new Uint16Array(objectCount);
+        this.chunkCoords = new Int16Array(chunkCount * 3);
+        this.chunkStarts = new Uint32Array(chunkCount);
+        this.chunkEnds = new Uint32Array(chunkCount);
+        this.chunkCorrupt = new Uint8Array(chunkCount);
+    }
+
+    private createIndexArray(maxIndex: number, length: number): Uint16Array | Uint32Array {
+        return maxIndex <= 65536 ? new Uint16Array(length) : new Uint32Array(length);
     }
 
     public parseDataPalette(): void {
         if (this.headerParsed) return;
 
-        for (let i = 0; i < this.scalePalette.length; i++) {
-            this.scalePalette[i] = this.reader.readFloatVector();
+        for (let i = 0; i < this.scalePaletteCount; i++) {
+            this.scalePalette.push(this.reader.readFloat32(), this.reader.readFloat32(), this.reader.readFloat32());
         }
 
-        for (let i = 0; i < this.rotationPalette.length; i++) {
-            this.rotationPalette[i] = this.reader.readFloatVector();
+        for (let i = 0; i < this.rotationPaletteCount; i++) {
+            this.rotationPalette.push(this.reader.readFloat32(), this.reader.readFloat32(), this.reader.readFloat32());
         }
 
         for (let i = 0; i < this.typePalette.length; i++) {
-            this.typePalette[i] = this.reader.readString();
+            const typeName = this.reader.readString();
+            this.typePalette[i] = typeName;
+            this.typePrefabs[i] =
+                this.mapSpecificEnum && this.mapSpecificEnum[typeName] !== undefined
+                    ? this.mapSpecificEnum[typeName]
+                    : mod.RuntimeSpawn_Common[typeName as any];
+
+            if (this.typePrefabs[i] === undefined) {
+                log.parser.warn(`Unknown object type '${typeName}' in type palette. Objects of this type will be skipped.`);
+            }
         }
 
         for (let i = 0; i < this.chunkInfos.length; i++) {
@@ -436,9 +1721,42 @@ class IncrementalDataParser {
             const offset = this.reader.readUInt32();
             const length = this.reader.readUInt32();
             this.chunkInfos[i] = { cx, cy, cz, offset, length };
+            this.chunkCoords[i * 3] = cx;
+            this.chunkCoords[i * 3 + 1] = cy;
+            this.chunkCoords[i * 3 + 2] = cz;
         }
 
+        if (this.corruptChunkFilter) this.markCorruptChunks(this.corruptChunkFilter);
         this.headerParsed = true;
+
+        if (gameEvents.has("onHeaderParsed")) {
+            gameEvents.emit(
+                "onHeaderParsed",
+                this.streamPrefix,
+                this.mapType,
+                this.positions.length / 3,
+                this.chunkInfos.length
+            );
+        }
+    }
+
+    private markCorruptChunks(integrity: StreamIntegrity): void {
+        // Checksums cover the stored bytes, which differ from chunk offsets when the payload is compressed
+        const metadataKey = integrity.findCorruptKey(0, this.stream.getStoredEnd(this.reader.totalOffset));
+        if (metadataKey !== null) {
+            throw new Error(`Header, palette or chunk index data is stored in corrupt key '${metadataKey}'.`);
+        }
+
+        for (let i = 0; i < this.chunkInfos.length; i++) {
+            const info = this.chunkInfos[i];
+            const storedStart = this.stream.getStoredStart(info.offset);
+            const storedLength = this.stream.getStoredEnd(info.offset + info.length) - storedStart;
+            const corruptKey = integrity.findCorruptKey(storedStart, storedLength);
+            if (corruptKey === null) continue;
+
+            this.chunkCorrupt[i] = 1;
+            log.parser.warn(`Skipping chunk [${info.cx},${info.cy},${info.cz}] stored in corrupt key '${corruptKey}'.`);
+        }
     }
 
     /**
@@ -453,23 +1771,43 @@ class IncrementalDataParser {
         const endIndex = Math.min(this.currentChunkIndex + this.CHUNKS_PER_CYCLE, this.chunkInfos.length);
 
         for (let i = this.currentChunkIndex; i < endIndex; i++) {
-            this.processChunk(this.chunkInfos[i]);
+            this.processChunk(i);
         }
 
         this.currentChunkIndex = endIndex;
 
         if (this.currentChunkIndex >= this.chunkInfos.length) {
             this.isComplete = true;
-            console.log("Parsing complete!");
+            log.parser.info("Parsing complete!");
+            if (gameEvents.has("onParseComplete")) {
+                gameEvents.emit("onParseComplete", this.streamPrefix, this.currentObjectCount);
+            }
             return true;
         }
 
-        const progress = Math.round((this.currentChunkIndex / this.chunkInfos.length) * 100);
-        console.log(`Chunk parsing progress: ${progress}%`);
+        if (log.parser.debugEnabled) {
+            const progress = Math.round((this.currentChunkIndex / this.chunkInfos.length) * 100);
+            log.parser.debug(`Chunk parsing progress: ${progress}%`);
+        }
         return false;
     }
 
-    private processChunk(info: ChunkInfo): void {
+    private processChunk(chunkId: number): void {
+        const info = this.chunkInfos[chunkId];
+
+        if (this.chunkCorrupt[chunkId] !== 0) {
+            this.chunkStarts[chunkId] = this.currentObjectCount;
+            this.chunkEnds[chunkId] = this.currentObjectCount;
+            this.seekPending = true;
+            return;
+        }
+
+        // Only seek once a chunk is actually needed, the key right after a skipped chunk may be corrupt too
+        if (this.seekPending) {
+            this.reader.seek(info.offset);
+            this.seekPending = false;
+        }
+
         const bytesLeftover = info.offset - this.reader.totalOffset;
         if (bytesLeftover != 0) {
             throw new Error(
@@ -477,288 +1815,1970 @@ class IncrementalDataParser {
             );
         }
 
-        const origin = new Vector(info.cx * this.chunkSize, info.cy * this.chunkSize, info.cz * this.chunkSize);
-
         const objCount = this.reader.readUInt16();
-        const chunkKey: string = `${info.cx},${info.cy},${info.cz}`;
-        let currentChunkBounds: ObjectSpan = {
-            start: this.currentObjectCount,
-            end: this.currentObjectCount,
-        };
+        this.chunkStarts[chunkId] = this.currentObjectCount;
 
         for (let j = 0; j < objCount; j++) {
-            const pX = origin.x + (this.reader.readUInt16() / this.MaxUint16) * this.chunkSize;
-            const pY = origin.y + (this.reader.readUInt16() / this.MaxUint16) * this.chunkSize;
-            const pZ = origin.z + (this.reader.readUInt16() / this.MaxUint16) * this.chunkSize;
-            const pos = new Vector(pX, pY, pZ);
-
-            const scaleIdx = this.reader.readByte();
-            const rotIdx = this.reader.readByte();
-            const typeIdx = this.reader.readUInt16();
-
-            const customScale = scaleIdx >= 255;
-            const customRotation = rotIdx >= 255;
-
-            let scale: Vector;
-            if (customScale) {
-                const sx = (this.reader.readUInt16() / this.MaxUint16) * this.ScaleMax;
-                const sy = (this.reader.readUInt16() / this.MaxUint16) * this.ScaleMax;
-                const sz = (this.reader.readUInt16() / this.MaxUint16) * this.ScaleMax;
-                scale = new Vector(sx, sy, sz);
-            } else {
-                scale = this.scalePalette[scaleIdx];
-            }
+            const record = this.readObjectRecord(info);
 
-            let rot: Vector;
-            if (customRotation) {
-                const rx = (this.reader.readUInt16() / this.MaxUint16) * this.RotationRange - this.RotationOffset;
-                const ry = (this.reader.readUInt16() / this.MaxUint16) * this.RotationRange - this.RotationOffset;
-                const rz = (this.reader.readUInt16() / this.MaxUint16) * this.RotationRange - this.RotationOffset;
-                rot = new Vector(rx, ry, rz);
-            } else {
-                rot = this.rotationPalette[rotIdx];
+            if (this.typePrefabs[record.typeIndex] === undefined) {
+                this.skippedObjectCount++;
+                continue;
             }
 
-            try {
-                const typeName = this.typePalette[typeIdx];
-                const typeId =
-                    this.mapSpecificEnum && this.mapSpecificEnum[typeName] !== undefined
-                        ? this.mapSpecificEnum[typeName]
-                        : mod.RuntimeSpawn_Common[typeName as any];
-
-                if (typeId === undefined) {
-                    console.warn(
-                        `Unknown object type '${typeName}' encountered in chunk [${info.cx},${info.cy},${info.cz}]. Skipping object.`
-                    );
-                    continue;
-                }
-                const uid = this.currentObjectCount++;
-
-                // Pre-compute mod.Vector instances during parsing to avoid repeated conversions during updates
-                this.chunkObjects[uid] = {
-                    uid: uid, // use the current objectCount to get a unique object id
-                    typeId,
-                    position: pos,
-                    modPosition: pos.toModVector(),
-                    modScale: scale.toModVector(),
-                    modRotation: rot.toModVector(),
-                };
-                this.uidToChunk.set(uid, chunkKey);
-                currentChunkBounds.end = this.currentObjectCount;
-            } catch (e) {
-                console.log("Failed to create object, skipping!");
-            }
+            const uid = this.currentObjectCount++;
+            this.positions[uid * 3] = record.x;
+            this.positions[uid * 3 + 1] = record.y;
+            this.positions[uid * 3 + 2] = record.z;
+            this.typeIndices[uid] = record.typeIndex;
+            this.chunkIds[uid] = chunkId;
+            this.scaleIndices[uid] =
+                record.scaleIndex === CUSTOM_PALETTE_SENTINEL
+                    ? this.scalePalette.push(record.sx, record.sy, record.sz)
+                    : record.scaleIndex;
+            this.rotationIndices[uid] =
+                record.rotationIndex === CUSTOM_PALETTE_SENTINEL
+                    ? this.rotationPalette.push(record.rx, record.ry, record.rz)
+                    : record.rotationIndex;
+        }
+
+        this.chunkEnds[chunkId] = this.currentObjectCount;
+
+        if (gameEvents.has("onChunkParsed")) {
+            gameEvents.emit("onChunkParsed", this.streamPrefix, chunkId, this.chunkStarts[chunkId], this.currentObjectCount);
+        }
+    }
+
+    // Reads the next object record into the shared scratch record
+    private readObjectRecord(info: ChunkInfo): ObjectRecord {
+        const record = this.record;
+        record.x = info.cx * this.chunkSize + (this.reader.readUInt16() / this.MaxUint16) * this.chunkSize;
+        record.y = info.cy * this.chunkSize + (this.reader.readUInt16() / this.MaxUint16) * this.chunkSize;
+        record.z = info.cz * this.chunkSize + (this.reader.readUInt16() / this.MaxUint16) * this.chunkSize;
+
+        record.scaleIndex = this.reader.readByte();
+        record.rotationIndex = this.reader.readByte();
+        record.typeIndex = this.reader.readUInt16();
+
+        if (record.scaleIndex === CUSTOM_PALETTE_SENTINEL) {
+            record.sx = (this.reader.readUInt16() / this.MaxUint16) * this.ScaleMax;
+            record.sy = (this.reader.readUInt16() / this.MaxUint16) * this.ScaleMax;
+            record.sz = (this.reader.readUInt16() / this.MaxUint16) * this.ScaleMax;
+        } else {
+            record.sx = this.scalePalette.getX(record.scaleIndex);
+            record.sy = this.scalePalette.getY(record.scaleIndex);
+            record.sz = this.scalePalette.getZ(record.scaleIndex);
+        }
+
+        if (record.rotationIndex === CUSTOM_PALETTE_SENTINEL) {
+            record.rx = (this.reader.readUInt16() / this.MaxUint16) * this.RotationRange - this.RotationOffset;
+            record.ry = (this.reader.readUInt16() / this.MaxUint16) * this.RotationRange - this.RotationOffset;
+            record.rz = (this.reader.readUInt16() / this.MaxUint16) * this.RotationRange - this.RotationOffset;
+        } else {
+            record.rx = this.rotationPalette.getX(record.rotationIndex);
+            record.ry = this.rotationPalette.getY(record.rotationIndex);
+            record.rz = this.rotationPalette.getZ(record.rotationIndex);
+        }
+
+        return record;
+    }
+
+    /**
+     * Decodes a single chunk on demand straight from its chunk index entry, without parsing earlier chunks.
+     * The record passed to the visitor is reused for every object, copy anything that needs to outlive the call.
+     * Any incremental parse in progress resumes where it was.
+     */
+    public decodeChunk(chunkIndex: number, visitor: (record: ObjectRecord, typeName: string) => void): void {
+        if (!this.headerParsed) throw new Error("Chunk index has not been parsed yet.");
+
+        const info = this.chunkInfos[chunkIndex];
+        if (info === undefined)
+            throw new Error(`Chunk index ${chunkIndex} is out of range (chunks=${this.chunkInfos.length}).`);
+        if (this.chunkCorrupt[chunkIndex] !== 0) {
+            throw new Error(`Chunk [${info.cx},${info.cy},${info.cz}] is stored in a corrupt key and cannot be decoded.`);
+        }
+
+        this.reader.seek(info.offset);
+
+        const objCount = this.reader.readUInt16();
+        for (let j = 0; j < objCount; j++) {
+            const record = this.readObjectRecord(info);
+            visitor(record, this.typePalette[record.typeIndex]);
+        }
+
+        const bytesRead = this.reader.totalOffset - info.offset;
+        if (bytesRead !== info.length) {
+            throw new Error(
+                `Chunk length error for [${info.cx},${info.cy},${info.cz}]: index says ${info.length} bytes, decoded ${bytesRead}.`
+            );
         }
-        this.chunkMap.set(chunkKey, currentChunkBounds);
+
+        // Incremental parsing always stops between chunks, so it picks up again by seeking to its next chunk
+        this.seekPending = true;
+    }
+
+    public getChunkInfos(): ReadonlyArray<ChunkInfo> {
+        return this.chunkInfos;
     }
 
     /**
-     * Returns the accumulated chunk map and chunk size when parsing is complete.
+     * Returns the parsed map objects when parsing is complete.
      */
     public getResults(): MapObjectData | null {
         if (!this.isComplete) return null;
-        return new MapObjectData(this.chunkObjects, this.chunkMap, this.chunkSize, this.uidToChunk);
+        return new MapObjectData({
+            mapType: this.mapType,
+            chunkSize: this.chunkSize,
+            objectCount: this.currentObjectCount,
+            positions: this.positions,
+            typeIndices: this.typeIndices,
+            scaleIndices: this.scaleIndices,
+            rotationIndices: this.rotationIndices,
+            chunkIds: this.chunkIds,
+            scales: this.scalePalette.toArray(),
+            rotations: this.rotationPalette.toArray(),
+            typeNames: this.typePalette,
+            typePrefabs: this.typePrefabs,
+            chunkCoords: this.chunkCoords,
+            chunkStarts: this.chunkStarts,
+            chunkEnds: this.chunkEnds,
+            minBounds: this.chunksMinBounds,
+            maxBounds: this.chunksMaxBounds,
+        });
     }
 
     public isParsingComplete(): boolean {
         return this.isComplete;
     }
+
+    // Index of the chunk the next processNextChunks call starts at
+    public getCurrentChunkIndex(): number {
+        return this.currentChunkIndex;
+    }
+
+    // Share of chunks parsed so far, in [0, 1]
+    public getProgress(): number {
+        if (this.isComplete) return 1;
+        if (!this.headerParsed || this.chunkInfos.length === 0) return 0;
+        return this.currentChunkIndex / this.chunkInfos.length;
+    }
+
+    // Type palette entries without a prefab on this map
+    public getSkippedTypeCount(): number {
+        let skipped = 0;
+        for (const prefab of this.typePrefabs) {
+            if (prefab === undefined) skipped++;
+        }
+        return skipped;
+    }
+
+    // Objects parsed so far that were dropped because their type has no prefab
+    public getSkippedObjectCount(): number {
+        return this.skippedObjectCount;
+    }
 }
 
-class DynamicObjectManager {
-    private readonly mapData: MapObjectData;
+// The Portal runtime starts to misbehave past roughly this many live runtime-spawned objects.
+const RUNTIME_OBJECT_LIMIT = 4096;
+// Ceiling enforced by the budget, leaving headroom for objects spawned outside of this script.
+const OBJECT_BUDGET_CEILING = runtimeConfig.integer("objectBudgetCeiling", 3900, 1, RUNTIME_OBJECT_LIMIT);
+const OBJECT_BUDGET_POLICY = runtimeConfig.oneOf<ObjectBudgetPolicy>("objectBudgetPolicy", "evict", [
+    "refuse",
+    "queue",
+    "evict",
+]);
+const BUDGET_QUEUE_DRAIN_PER_TICK = 64;
+const BUDGET_EVICTION_BATCH = 32;
+// Priority lost per metre from the closest focus point, and per tick of age
+const BUDGET_DISTANCE_WEIGHT = 1;
+const BUDGET_AGE_WEIGHT = 0.01;
+// An incoming spawn must beat the weakest live object by this much to evict it (prevents thrashing)
+const BUDGET_EVICTION_MARGIN = 5;
+// Free slots needed before evicted or refused objects are retried, so a retry does not hit the ceiling straight away
+const BUDGET_RETRY_HEADROOM = 64;
+// Eviction priority added per type, e.g. {"BarrierStoneBlock_01_A": 50}. Types with a higher priority are evicted last.
+const OBJECT_TYPE_PRIORITIES = runtimeConfig.read<{ [typeName: string]: number }>(
+    "objectTypePriorities",
+    {},
+    "an object mapping type names to numbers",
+    (value): value is { [typeName: string]: number } =>
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.keys(value).every((key) => typeof (value as { [key: string]: unknown })[key] === "number")
+);
 
-    private spawnedObjects = new Map<number, mod.SpatialObject>();
-    private spawnedTypes = new Map<number, number>();
-    private trackedPoints = new Map<string, { point: Vector; radius: number; team: number }>();
-    private desiredObjectSet = new Set<number>();
-    private objectOwnership: Map<number, number> = new Map();
-    private uidToChunk: Map<number, string>;
+/**
+ * What happens to a spawn request once the budget ceiling is reached.
+ * - refuse: the spawn is dropped and the caller gets null
+ * - queue: the spawn is held until capacity frees up, then handed back through the client
+ * - evict: the lowest priority live object is unspawned to make room, if the new object outranks it
+ */
+type ObjectBudgetPolicy = "refuse" | "queue" | "evict";
 
-    private teamMaterialMap: Array<number>;
+interface ObjectBudgetClient {
+    onBudgetSpawned(id: number, handle: mod.SpatialObject, typeId: number): void;
+    onBudgetEvicted(id: number): void;
+}
 
-    constructor(mapData: MapObjectData) {
-        this.mapData = mapData;
-        this.uidToChunk = mapData.uidToChunk;
-        this.teamMaterialMap = [];
-        this.teamMaterialMap.push(mod.RuntimeSpawn_Common.BarrierStoneBlock_01_A);
-        this.teamMaterialMap.push(mod.RuntimeSpawn_Abbasid.BarrierHesco_01_128x120);
+interface BudgetedSpawnRequest {
+    client: ObjectBudgetClient;
+    id: number; // Caller defined id, unique per client
+    typeId: number;
+    position: mod.Vector;
+    rotation: mod.Vector;
+    scale: mod.Vector;
+    // World position used for distance based priority
+    x: number;
+    y: number;
+    z: number;
+    basePriority: number;
+}
+
+interface LiveBudgetEntry {
+    client: ObjectBudgetClient;
+    id: number;
+    typeId: number;
+    x: number;
+    y: number;
+    z: number;
+    basePriority: number;
+    spawnTick: number;
+}
+
+/**
+ * Tracks every runtime spawned object so the script never pushes the server past the runtime object limit.
+ * All mod.SpawnObject/mod.UnspawnObject calls in this script go through here.
+ */
+class ObjectBudgetManager {
+    private readonly ceiling: number;
+    private readonly policy: ObjectBudgetPolicy;
+    private readonly live = new Map<mod.SpatialObject, LiveBudgetEntry>();
+    private readonly queued = new Map<ObjectBudgetClient, Map<number, BudgetedSpawnRequest>>();
+    private readonly typePriorities = new Map<number, number>();
+    private readonly focusPoints: Array<{ x: number; y: number; z: number }> = [];
+
+    // Weakest live objects from the last scan, sorted ascending by priority. Rebuilt at most once per tick.
+    private evictionCandidates: mod.SpatialObject[] = [];
+    private evictionPriorities: number[] = [];
+    private candidatesValid = false;
+    // Map type OBJECT_TYPE_PRIORITIES were resolved for
+    private priorityMapType: string | null = null;
+
+    private tick = 0;
+    private queuedCount = 0;
+    private refusedCount = 0;
+    private evictedCount = 0;
+    private lastDrainedCount = 0;
+
+    constructor(ceiling: number = OBJECT_BUDGET_CEILING, policy: ObjectBudgetPolicy = OBJECT_BUDGET_POLICY) {
+        if (ceiling <= 0 || ceiling > RUNTIME_OBJECT_LIMIT) {
+            throw new Error(`Object budget ceiling ${ceiling} must be between 1 and ${RUNTIME_OBJECT_LIMIT}.`);
+        }
+        this.ceiling = ceiling;
+        this.policy = policy;
     }
 
-    private getChunkKey(x: number, y: number, z: number): string {
-        return `${x},${y},${z}`;
+    public getLiveCount(): number {
+        return this.live.size;
     }
 
-    public addOrUpdateTrackedPoint(key: string, position: mod.Vector, radius: number, team: number): void {
-        // TODO - We could optimize memory further by reusing Vector instances in some kind of object pool
-        this.trackedPoints.set(key, { point: new Vector().fromModVector(position), radius, team });
+    public getCeiling(): number {
+        return this.ceiling;
     }
 
-    public removeTrackedPoint(key: string): void {
-        this.trackedPoints.delete(key);
+    public getRemaining(): number {
+        return Math.max(0, this.ceiling - this.live.size);
     }
 
-    public getObjectOwnership(): Map<number, number> {
-        return this.objectOwnership;
+    public getUsageRatio(): number {
+        return this.live.size / this.ceiling;
     }
 
-    // Helper function to get team scores for the UI
-    public getTeamScores(): Map<number, number> {
-        const scores = new Map<number, number>([
-            [1, 0],
-            [2, 0],
-        ]);
-        for (const team of this.objectOwnership.values()) {
-            const teamId = team + 1; // Convert team index (0, 1) to team ID (1, 2)
-            scores.set(teamId, (scores.get(teamId) ?? 0) + 1);
-        }
-        return scores;
+    public getQueuedCount(): number {
+        return this.queuedCount;
     }
 
-    public calculateCurrentWinner(): number {
-        let team0Count = 0;
-        let team1Count = 0;
-        for (const team of this.objectOwnership.values()) {
-            if (team === 0) team0Count++;
-            else if (team === 1) team1Count++;
-        }
+    public getRefusedCount(): number {
+        return this.refusedCount;
+    }
 
-        if (team0Count > team1Count) {
-            return 1; // Team 1 wins
-        } else if (team1Count > team0Count) {
-            return 2; // Team 2 wins
-        } else {
-            return 0; // Tie
-        }
+    public getEvictedCount(): number {
+        return this.evictedCount;
     }
 
-    public update(): void {
-        // Claim objects for teams
-        for (const trackedPoint of this.trackedPoints.values()) {
-            const pointX = trackedPoint.point.x;
-            const pointY = trackedPoint.point.y;
-            const pointZ = trackedPoint.point.z;
-
-            const chunkX = Math.floor(pointX / this.mapData.chunkSize);
-            const chunkY = Math.floor(pointY / this.mapData.chunkSize);
-            const chunkZ = Math.floor(pointZ / this.mapData.chunkSize);
-
-            const chunkRadius = Math.ceil(trackedPoint.radius / this.mapData.chunkSize);
-
-            for (let x = chunkX - chunkRadius; x <= chunkX + chunkRadius; x++) {
-                for (let y = chunkY - chunkRadius; y <= chunkY + chunkRadius; y++) {
-                    for (let z = chunkZ - chunkRadius; z <= chunkZ + chunkRadius; z++) {
-                        const chunkKey = this.getChunkKey(x, y, z);
-                        const chunkRange = this.mapData.chunkSegments.get(chunkKey);
-                        if (chunkRange) {
-                            for (let i = chunkRange.start; i < chunkRange.end; ++i) {
-                                const obj = this.mapData.chunkObjects[i];
-                                const dx = obj.position.x - pointX;
-                                const dy = obj.position.y - pointY;
-                                const dz = obj.position.z - pointZ;
-                                if (dx * dx + dy * dy + dz * dz <= trackedPoint.radius * trackedPoint.radius) {
-                                    this.objectOwnership.set(obj.uid, trackedPoint.team);
-                                }
-                            }
-                        }
-                    }
+    // Queued spawns drained by the last update
+    public getLastDrainedCount(): number {
+        return this.lastDrainedCount;
+    }
+
+    public isFull(): boolean {
+        return this.live.size >= this.ceiling;
+    }
+
+    /**
+     * Free slots clients may use to retry objects that were evicted or refused earlier. Stays 0 until
+     * BUDGET_RETRY_HEADROOM slots are free, so retries do not keep the budget pinned at the ceiling.
+     */
+    public getRetryRoom(): number {
+        const remaining = this.getRemaining();
+        return remaining >= Math.min(BUDGET_RETRY_HEADROOM, this.ceiling) ? remaining : 0;
+    }
+
+    public setTypePriority(typeId: number, priority: number): void {
+        this.typePriorities.set(typeId, priority);
+    }
+
+    // Resolves OBJECT_TYPE_PRIORITIES against the map's prefabs. Every stream of a map shares its type ids.
+    public applyTypePriorities(mapType: string): void {
+        if (this.priorityMapType === mapType) return;
+        this.priorityMapType = mapType;
+        this.typePriorities.clear();
+
+        for (const name of Object.keys(OBJECT_TYPE_PRIORITIES)) {
+            const typeId = resolvePrefabName(name, mapType);
+            if (typeId === undefined) {
+                log.spawner.warn(`Unknown prefab '${name}' in objectTypePriorities on map '${mapType}', ignoring it.`);
+                continue;
+            }
+            this.setTypePriority(typeId, OBJECT_TYPE_PRIORITIES[name]);
+        }
+    }
+
+    /**
+     * Focus points (players, vehicles) drive the distance part of the eviction priority.
+     * Points are held by reference, so callers can keep mutating their own vectors.
+     */
+    public clearFocusPoints(): void {
+        this.focusPoints.length = 0;
+    }
+
+    public addFocusPoint(point: { x: number; y: number; z: number }): void {
+        this.focusPoints.push(point);
+    }
+
+    /**
+     * Spawns the object if the budget allows it. Returns null when the spawn was refused or queued.
+     */
+    public spawn(request: BudgetedSpawnRequest): mod.SpatialObject | null {
+        this.cancelQueued(request.client, request.id);
+
+        if (this.isFull()) {
+            if (this.policy === "queue") {
+                this.enqueue(request);
+                if (gameEvents.has("onBudgetExceeded")) gameEvents.emit("onBudgetExceeded", "queued", this.live.size);
+                return null;
+            }
+
+            if (this.policy === "refuse" || !this.evictFor(request)) {
+                this.refusedCount++;
+                if (gameEvents.has("onBudgetExceeded")) gameEvents.emit("onBudgetExceeded", "refused", this.live.size);
+                return null;
+            }
+            if (gameEvents.has("onBudgetExceeded")) gameEvents.emit("onBudgetExceeded", "evicted", this.live.size);
+        }
+
+        return this.spawnNow(request);
+    }
+
+    public unspawn(handle: mod.SpatialObject): void {
+        mod.UnspawnObject(handle);
+        this.live.delete(handle);
+    }
+
+    public cancelQueued(client: ObjectBudgetClient, id: number): void {
+        const clientQueue = this.queued.get(client);
+        if (clientQueue && clientQueue.delete(id)) this.queuedCount--;
+    }
+
+    public cancelAllQueued(client: ObjectBudgetClient): void {
+        const clientQueue = this.queued.get(client);
+        if (!clientQueue) return;
+        this.queuedCount -= clientQueue.size;
+        clientQueue.clear();
+    }
+
+    // Type id a queued spawn will use, or undefined if nothing is queued for this id
+    public getQueuedTypeId(client: ObjectBudgetClient, id: number): number | undefined {
+        return this.queued.get(client)?.get(id)?.typeId;
+    }
+
+    /**
+     * Advances the budget clock and drains queued spawns into any freed capacity.
+     * Call once per tick before any spawning.
+     */
+    public update(): void {
+        this.tick++;
+        this.candidatesValid = false;
+        this.lastDrainedCount = 0;
+
+        if (this.queuedCount === 0) return;
+
+        for (const clientQueue of this.queued.values()) {
+            for (const [id, request] of clientQueue) {
+                if (this.isFull() || this.lastDrainedCount >= BUDGET_QUEUE_DRAIN_PER_TICK) return;
+
+                clientQueue.delete(id);
+                this.queuedCount--;
+                this.lastDrainedCount++;
+
+                const handle = this.spawnNow(request);
+                request.client.onBudgetSpawned(request.id, handle, request.typeId);
+            }
+        }
+    }
+
+    private enqueue(request: BudgetedSpawnRequest): void {
+        let clientQueue = this.queued.get(request.client);
+        if (!clientQueue) {
+            clientQueue = new Map();
+            this.queued.set(request.client, clientQueue);
+        }
+        clientQueue.set(request.id, request);
+        this.queuedCount++;
+    }
+
+    private spawnNow(request: BudgetedSpawnRequest): mod.SpatialObject {
+        const handle = mod.SpawnObject(request.typeId, request.position, request.rotation, request.scale);
+        this.live.set(handle, {
+            client: request.client,
+            id: request.id,
+            typeId: request.typeId,
+            x: request.x,
+            y: request.y,
+            z: request.z,
+            basePriority: request.basePriority,
+            spawnTick: this.tick,
+        });
+        return handle;
+    }
+
+    /**
+     * Evicts the weakest live object if the incoming request outranks it. Returns true if room was made.
+     */
+    private evictFor(request: BudgetedSpawnRequest): boolean {
+        if (!this.candidatesValid) this.collectEvictionCandidates();
+
+        const incomingPriority = this.computePriority(
+            request.typeId,
+            request.basePriority,
+            request.x,
+            request.y,
+            request.z,
+            this.tick
+        );
+
+        while (this.evictionCandidates.length > 0) {
+            const handle = this.evictionCandidates[0];
+            const entry = this.live.get(handle);
+            if (!entry) {
+                // Already unspawned by its owner since the scan
+                this.evictionCandidates.shift();
+                this.evictionPriorities.shift();
+                continue;
+            }
+
+            if (incomingPriority < this.evictionPriorities[0] + BUDGET_EVICTION_MARGIN) return false;
+
+            this.evictionCandidates.shift();
+            this.evictionPriorities.shift();
+            mod.UnspawnObject(handle);
+            this.live.delete(handle);
+            this.evictedCount++;
+            entry.client.onBudgetEvicted(entry.id);
+            return true;
+        }
+
+        return false;
+    }
+
+    private collectEvictionCandidates(): void {
+        const candidates = this.evictionCandidates;
+        const priorities = this.evictionPriorities;
+        candidates.length = 0;
+        priorities.length = 0;
+
+        for (const [handle, entry] of this.live) {
+            const priority = this.computePriority(entry.typeId, entry.basePriority, entry.x, entry.y, entry.z, entry.spawnTick);
+            if (candidates.length >= BUDGET_EVICTION_BATCH && priority >= priorities[candidates.length - 1]) continue;
+
+            // Insertion sort into the small fixed size batch
+            let i = Math.min(candidates.length, BUDGET_EVICTION_BATCH - 1);
+            candidates.length = i + 1;
+            priorities.length = i + 1;
+            while (i > 0 && priorities[i - 1] > priority) {
+                candidates[i] = candidates[i - 1];
+                priorities[i] = priorities[i - 1];
+                i--;
+            }
+            candidates[i] = handle;
+            priorities[i] = priority;
+        }
+
+        this.candidatesValid = true;
+    }
+
+    // Higher is more important. Far away, low priority types and old objects are evicted first.
+    private computePriority(typeId: number, basePriority: number, x: number, y: number, z: number, spawnTick: number): number {
+        let priority = basePriority + (this.typePriorities.get(typeId) ?? 0);
+
+        if (this.focusPoints.length > 0) {
+            let nearestSq = Number.MAX_VALUE;
+            for (const point of this.focusPoints) {
+                const dx = x - point.x;
+                const dy = y - point.y;
+                const dz = z - point.z;
+                const distSq = dx * dx + dy * dy + dz * dz;
+                if (distSq < nearestSq) nearestSq = distSq;
+            }
+            priority -= Math.sqrt(nearestSq) * BUDGET_DISTANCE_WEIGHT;
+        }
+
+        return priority - (this.tick - spawnTick) * BUDGET_AGE_WEIGHT;
+    }
+}
+
+// Teams taking part in the match. Team ids are 1..TEAM_COUNT, ownership stores the team index (team id - 1).
+// Every team needs an HQ and a vehicle spawner whose object id matches its team id.
+const TEAM_COUNT = runtimeConfig.integer("teamCount", 2, 2, 4);
+
+interface TeamConfig {
+    color: number[]; // HUD background color, rgb in [0, 1]
+    lightColor: number[]; // HUD text color
+    // Prefab captured objects are respawned as when TEAM_MATERIAL_TABLE has no variant for their type,
+    // undefined keeps the authored type
+    fallbackMaterial: string | undefined;
+}
+
+// Indexed by team index, needs at least TEAM_COUNT entries. The "teams" config entry overrides fields per team,
+// e.g. [{ "color": [1, 0, 0] }, { "fallbackMaterial": null }].
+const TEAM_CONFIGS: TeamConfig[] = applyTeamConfigOverrides([
+    { color: [0.1, 0.4, 0.8], lightColor: [0.7, 0.8, 1.0], fallbackMaterial: "BarrierStoneBlock_01_A" },
+    { color: [0.8, 0.3, 0.1], lightColor: [1.0, 0.8, 0.7], fallbackMaterial: "Abbasid.BarrierHesco_01_128x120" },
+    { color: [0.2, 0.6, 0.2], lightColor: [0.75, 1.0, 0.75], fallbackMaterial: undefined },
+    { color: [0.5, 0.2, 0.7], lightColor: [0.9, 0.75, 1.0], fallbackMaterial: undefined },
+]);
+
+// Team variants of authored types, keyed by type palette name and indexed by team index, so captured terrain
+// keeps its silhouette. Prefab names resolve against the map's enum, then RuntimeSpawn_Common. A "Map." prefix
+// picks another map's enum. Missing or unknown entries use the team's fallbackMaterial.
+// The "teamMaterials" config entry replaces the whole table, null entries use the fallback.
+const TEAM_MATERIAL_TABLE = toMaterialTable(
+    runtimeConfig.read<{ [typeName: string]: Array<string | null> }>(
+        "teamMaterials",
+        { BarrierStoneBlock_01_A: ["BarrierStoneBlock_01_A", "Abbasid.BarrierHesco_01_128x120"] },
+        `an object of type names to arrays of ${TEAM_COUNT} prefab names or null, one per team`,
+        (value): value is { [typeName: string]: Array<string | null> } =>
+            typeof value === "object" &&
+            value !== null &&
+            !Array.isArray(value) &&
+            Object.values(value).every(
+                (variants) =>
+                    Array.isArray(variants) &&
+                    variants.length === TEAM_COUNT &&
+                    variants.every((name) => typeof name === "string" || name === null)
+            )
+    )
+);
+
+// null marks a team without a variant in the config, the table itself uses undefined
+function toMaterialTable(table: { [typeName: string]: Array<string | null> }): {
+    [typeName: string]: Array<string | undefined>;
+} {
+    const result: { [typeName: string]: Array<string | undefined> } = {};
+    for (const typeName of Object.keys(table)) result[typeName] = table[typeName].map((name) => name ?? undefined);
+    return result;
+}
+
+// Merges the per team overrides of the "teams" config entry into the defaults
+function applyTeamConfigOverrides(defaults: TeamConfig[]): TeamConfig[] {
+    const overrides = runtimeConfig.read<Array<{ [field: string]: unknown }>>(
+        "teams",
+        [],
+        `up to ${defaults.length} objects with color/lightColor ([r, g, b] in [0, 1]) and fallbackMaterial (string or null)`,
+        (value): value is Array<{ [field: string]: unknown }> => {
+            if (!Array.isArray(value) || value.length > defaults.length) return false;
+            return value.every((team) => {
+                if (typeof team !== "object" || team === null) return false;
+                const isColor = (color: unknown) =>
+                    color === undefined || (isNumberArray(color, 3) && color.every((c) => c >= 0 && c <= 1));
+                const material = team.fallbackMaterial;
+                return (
+                    isColor(team.color) &&
+                    isColor(team.lightColor) &&
+                    (material === undefined || material === null || typeof material === "string")
+                );
+            });
+        }
+    );
+
+    return defaults.map((team, index) => {
+        const override = overrides[index];
+        if (override === undefined) return team;
+        return {
+            color: (override.color as number[] | undefined) ?? team.color,
+            lightColor: (override.lightColor as number[] | undefined) ?? team.lightColor,
+            fallbackMaterial:
+                override.fallbackMaterial === undefined
+                    ? team.fallbackMaterial
+                    : (override.fallbackMaterial as string | null) ?? undefined,
+        };
+    });
+}
+
+if (TEAM_COUNT < 2 || TEAM_COUNT > TEAM_CONFIGS.length) {
+    throw new Error(`TEAM_COUNT (${TEAM_COUNT}) must be between 2 and the number of TEAM_CONFIGS (${TEAM_CONFIGS.length}).`);
+}
+
+// Resolves a prefab name as used in TEAM_MATERIAL_TABLE, returns undefined if no enum has it
+function resolvePrefabName(name: string, mapType: string): number | undefined {
+    const separator = name.indexOf(".");
+    if (separator >= 0) {
+        const mapEnum = mapTypeToEnum[name.substring(0, separator)];
+        return mapEnum ? mapEnum[name.substring(separator + 1)] : undefined;
+    }
+
+    const mapEnum = mapTypeToEnum[mapType];
+    if (mapEnum && mapEnum[name] !== undefined) return mapEnum[name];
+    return (mod.RuntimeSpawn_Common as any)[name];
+}
+
+/**
+ * TEAM_MATERIAL_TABLE resolved against the loaded map, one prefab per type palette index and team.
+ * Every name is validated once here, so the ownership loop only does an array lookup.
+ */
+class TeamMaterialTable {
+    private static readonly AUTHORED = -1;
+    private readonly prefabs: Int32Array;
+
+    constructor(mapData: MapObjectData) {
+        const typeCount = mapData.typeNames.length;
+        this.prefabs = new Int32Array(typeCount * TEAM_COUNT).fill(TeamMaterialTable.AUTHORED);
+
+        for (let team = 0; team < TEAM_COUNT; team++) {
+            const fallback = this.resolve(TEAM_CONFIGS[team].fallbackMaterial, mapData.mapType, `team ${team + 1} fallback`);
+            for (let typeIndex = 0; typeIndex < typeCount; typeIndex++) {
+                const typeName = mapData.typeNames[typeIndex];
+                const variants = TEAM_MATERIAL_TABLE[typeName];
+                const usage = `team ${team + 1} '${typeName}' variant`;
+                const variant = variants ? this.resolve(variants[team], mapData.mapType, usage) : undefined;
+                this.prefabs[typeIndex * TEAM_COUNT + team] = variant ?? fallback ?? TeamMaterialTable.AUTHORED;
+            }
+        }
+    }
+
+    // Prefab a captured object of the type turns into for the team, or undefined to keep the authored type
+    public getPrefab(typeIndex: number, team: number): number | undefined {
+        if (team < 0 || team >= TEAM_COUNT) return undefined;
+        const prefab = this.prefabs[typeIndex * TEAM_COUNT + team];
+        return prefab === TeamMaterialTable.AUTHORED ? undefined : prefab;
+    }
+
+    private resolve(name: string | undefined, mapType: string, usage: string): number | undefined {
+        if (name === undefined) return undefined;
+
+        const prefab = resolvePrefabName(name, mapType);
+        if (prefab === undefined) log.spawner.warn(`Unknown prefab '${name}' for ${usage} on map '${mapType}', ignoring it.`);
+        return prefab;
+    }
+}
+
+// Chunk streaming keeps the authored map spawned around tracked points and unspawns it elsewhere.
+// When disabled only captured objects are ever spawned.
+const CHUNK_STREAMING_ENABLED = runtimeConfig.boolean("chunkStreamingEnabled", false);
+// Chunks closer than the load radius are spawned, loaded chunks further than the unload radius are unspawned.
+// The gap between the two is the hysteresis band that stops chunks flickering at the boundary.
+const [STREAM_LOAD_RADIUS, STREAM_UNLOAD_RADIUS] = runtimeConfig.numberPair(
+    "streamLoadRadius",
+    "streamUnloadRadius",
+    160,
+    224,
+    0
+);
+const STREAM_UPDATE_INTERVAL_TICKS = 10;
+const STREAM_MAX_CHUNK_CHANGES_PER_UPDATE = 4;
+
+// Capture is progressive: every tick each tracked point adds its kind's speed to the objects in its radius,
+// and an object flips once CAPTURE_PROGRESS_REQUIRED is reached (90 is ~3 seconds for one soldier).
+// Objects reached by more than one team are contested and stall. Set the requirement to 0 for instant capture.
+const CAPTURE_PROGRESS_REQUIRED = runtimeConfig.number("captureProgressRequired", 90, 0);
+const CAPTURE_SPEED: { [kind in TrackedPointKind]: number } = {
+    soldier: runtimeConfig.number("captureSpeedSoldier", 1, 0),
+    vehicle: runtimeConfig.number("captureSpeedVehicle", 2, 0),
+};
+// Ticks a freshly flipped object can not be captured again, 0 disables the lock-out
+const CAPTURE_COOLDOWN_TICKS = runtimeConfig.integer("captureCooldownTicks", 150, 0);
+
+type TrackedPointKind = "soldier" | "vehicle";
+
+// Material swaps (unspawn + spawn) applied per tick. Owner changes beyond this wait in the swap backlog,
+// closest to a tracked point first, so a vehicle driving through fresh terrain can not spike a single tick.
+const OWNERSHIP_SWAPS_PER_TICK = runtimeConfig.integer("ownershipSwapsPerTick", 32, 1, 1024);
+// A backlog above this is reported once until it drains again
+const SWAP_BACKLOG_WARNING = 512;
+// The backlog is reordered by distance to the tracked points this often, and whenever its ordered part runs out
+const SWAP_RESORT_INTERVAL_TICKS = 15;
+// Distance buckets the backlog is ordered by, entries in the same bucket keep their queue order
+const SWAP_BUCKET_SIZE = 32;
+const SWAP_BUCKET_COUNT = 16;
+
+// Owned objects not reinforced by their owner's presence for OWNERSHIP_DECAY_TICKS revert to neutral and respawn
+// as authored. "object" tracks presence per object, "chunk" keeps all of a team's objects in a chunk alive while
+// it reinforces any of them. "off" holds ownership until another team captures it.
+const OWNERSHIP_DECAY_MODE = runtimeConfig.oneOf<OwnershipDecayMode>("ownershipDecayMode", "off", ["off", "object", "chunk"]);
+const OWNERSHIP_DECAY_TICKS = runtimeConfig.integer("ownershipDecayTicks", 1800, 1);
+// Owned objects checked for decay per tick, the whole map is swept round robin
+const DECAY_CHECKS_PER_TICK = 256;
+
+type OwnershipDecayMode = "off" | "object" | "chunk";
+
+// Player ids are used as array indices for capture attribution and per-player state
+const MAX_PLAYERS = 256;
+const NO_PLAYER = -1;
+
+const CAPTURE_TEAM_NONE = -1;
+const CAPTURE_TEAM_CONTESTED = -2;
+
+/**
+ * Team id with the most objects in the per team index counts, or 0 if two or more teams share the lead.
+ */
+function getLeadingTeam(counts: Uint32Array): number {
+    let leader = 0;
+    let best = -1;
+    for (let team = 0; team < TEAM_COUNT; team++) {
+        if (counts[team] > best) {
+            best = counts[team];
+            leader = team + 1;
+        } else if (counts[team] === best) {
+            leader = 0; // Tie
+        }
+    }
+    return leader;
+}
+
+class DynamicObjectManager implements ObjectBudgetClient {
+    private readonly mapData: MapObjectData;
+    private readonly budget: ObjectBudgetManager;
+    private readonly query: SpatialQuery;
+
+    private spawnedObjects = new Map<number, mod.SpatialObject>();
+    private spawnedTypes = new Map<number, number>();
+    private trackedPoints = new Map<
+        string,
+        { point: Vector; radius: number; team: number; kind: TrackedPointKind; playerId: number }
+    >();
+    private objectOwnership: Map<number, number> = new Map();
+
+    // Swap backlog: owned objects whose spawned type may no longer match their owner, each uid is queued at most once.
+    // Entries between dirtyHead and sortedEnd are ordered by distance bucket, later ones were queued since the last sort.
+    private dirtyObjects: Uint32Array;
+    private sortScratch: Uint32Array;
+    private readonly dirtyFlags: Uint8Array;
+    private dirtyHead = 0;
+    private dirtyEnd = 0;
+    private sortedEnd = 0;
+    private lastSortTick = 0;
+    private peakDirtyCount = 0;
+    private backlogWarningReported = false;
+    private readonly swapBatch = new Uint32Array(OWNERSHIP_SWAPS_PER_TICK);
+    // Distance bucket per chunk id, valid where chunkBucketSort matches sortCount
+    private readonly chunkBuckets: Uint8Array;
+    private readonly chunkBucketSort: Uint32Array;
+    private readonly bucketOffsets = new Uint32Array(SWAP_BUCKET_COUNT + 1);
+    private sortCount = 0;
+
+    // Wanted objects the budget evicted or refused. They wait here until the budget has room again instead of going
+    // straight back into the backlog, where each retry would evict something else at the ceiling.
+    private readonly parkedObjects: Uint32Array;
+    private readonly parkedFlags: Uint8Array;
+    private parkedCount = 0;
+
+    // Streaming state per chunk id, 1 when the chunk is loaded
+    private chunkLoaded: Uint8Array;
+    private loadedChunkCount = 0;
+    private streamTick = 0;
+
+    // Capture state per uid. Progress belongs to captureTeam and carries over while nobody is in range.
+    private readonly captureProgress: Float32Array;
+    private readonly captureTeam: Int8Array;
+    private readonly lockedUntilTick: Uint32Array;
+    private tick = 0;
+
+    // Team pressure gathered this tick per uid, valid where pressureTick matches the current tick
+    private readonly pressureTick: Uint32Array;
+    private readonly pressureTeam: Int8Array;
+    private readonly pressureSpeed: Float32Array;
+    private readonly pressurePlayer: Int16Array;
+    private touchedObjects = new Uint32Array(256);
+    private contestedCount = 0;
+
+    // Work done by the last update: objects under capture pressure and material swaps applied
+    private lastTouchedCount = 0;
+    private lastSwapCount = 0;
+
+    // Capture attribution: the player credited with each owned object, and per player id the objects they
+    // captured in total, currently own for their team, and captured since their last deployment
+    private readonly objectCapturers: Int16Array;
+    private readonly playerCaptures = new Uint32Array(MAX_PLAYERS);
+    private readonly playerOwned = new Uint32Array(MAX_PLAYERS);
+    private readonly playerStreaks = new Uint32Array(MAX_PLAYERS);
+    // 1 from a player's undeploy until their next deployment, nothing is credited to them in between
+    private readonly playerUndeployed = new Uint8Array(MAX_PLAYERS);
+
+    // Last tick the owner was present, per uid ("object" decay) or per chunk and team index ("chunk" decay)
+    private readonly reinforcedTick: Uint32Array;
+    private decayCursor = 0;
+    private decayedCount = 0;
+
+    // Owned object count per chunk and team index, and the team index owning the most objects of each chunk
+    private readonly chunkTeamCounts: Uint32Array;
+    private readonly chunkOwners: Int8Array;
+
+    private readonly teamMaterials: TeamMaterialTable;
+    // Owned object count per team index, recounted by countTeamObjects
+    private readonly teamObjectCounts = new Uint32Array(TEAM_COUNT);
+    private readonly teamScores = new Map<number, number>();
+
+    constructor(mapData: MapObjectData, budget: ObjectBudgetManager) {
+        this.mapData = mapData;
+        this.budget = budget;
+        this.query = new SpatialQuery(mapData);
+        this.chunkLoaded = new Uint8Array(mapData.chunkCount);
+        this.chunkTeamCounts = new Uint32Array(mapData.chunkCount * TEAM_COUNT);
+        this.chunkOwners = new Int8Array(mapData.chunkCount).fill(CAPTURE_TEAM_NONE);
+
+        this.dirtyObjects = new Uint32Array(mapData.objectCount);
+        this.sortScratch = new Uint32Array(mapData.objectCount);
+        this.chunkBuckets = new Uint8Array(mapData.chunkCount);
+        this.chunkBucketSort = new Uint32Array(mapData.chunkCount);
+        this.dirtyFlags = new Uint8Array(mapData.objectCount);
+        this.parkedObjects = new Uint32Array(mapData.objectCount);
+        this.parkedFlags = new Uint8Array(mapData.objectCount);
+
+        this.captureProgress = new Float32Array(mapData.objectCount);
+        this.captureTeam = new Int8Array(mapData.objectCount).fill(CAPTURE_TEAM_NONE);
+        this.lockedUntilTick = new Uint32Array(mapData.objectCount);
+        this.pressureTick = new Uint32Array(mapData.objectCount);
+        this.pressureTeam = new Int8Array(mapData.objectCount);
+        this.pressureSpeed = new Float32Array(mapData.objectCount);
+        this.pressurePlayer = new Int16Array(mapData.objectCount);
+        this.objectCapturers = new Int16Array(mapData.objectCount).fill(NO_PLAYER);
+        this.reinforcedTick = new Uint32Array(
+            OWNERSHIP_DECAY_MODE === "chunk"
+                ? mapData.chunkCount * TEAM_COUNT
+                : OWNERSHIP_DECAY_MODE === "object"
+                ? mapData.objectCount
+                : 0
+        );
+
+        this.teamMaterials = new TeamMaterialTable(mapData);
+        budget.applyTypePriorities(mapData.mapType);
+    }
+
+    public addOrUpdateTrackedPoint(
+        key: string,
+        position: mod.Vector,
+        radius: number,
+        team: number,
+        kind: TrackedPointKind = "soldier",
+        playerId: number = NO_PLAYER
+    ): void {
+        // TODO - We could optimize memory further by reusing Vector instances in some kind of object pool
+        this.trackedPoints.set(key, { point: new Vector().fromModVector(position), radius, team, kind, playerId });
+    }
+
+    public removeTrackedPoint(key: string): void {
+        this.trackedPoints.delete(key);
+    }
+
+    public onBudgetSpawned(uid: number, handle: mod.SpatialObject, typeId: number): void {
+        this.spawnedObjects.set(uid, handle);
+        this.spawnedTypes.set(uid, typeId);
+        if (gameEvents.has("onObjectSpawned")) gameEvents.emit("onObjectSpawned", uid, typeId);
+    }
+
+    public onBudgetEvicted(uid: number): void {
+        this.spawnedObjects.delete(uid);
+        this.spawnedTypes.delete(uid);
+        if (this.isWanted(uid)) this.park(uid);
+    }
+
+    /**
+     * Returns every object to neutral and clears all capture progress. Captured objects go through the swap backlog
+     * over the next ticks, respawning as their authored type in loaded chunks and unspawning without streaming, so
+     * every round starts from the same state. Nothing is parsed again.
+     */
+    public resetOwnership(): void {
+        this.decayedCount = 0;
+        this.peakDirtyCount = this.getSwapBacklog();
+        for (const uid of this.objectOwnership.keys()) this.setOwner(uid, CAPTURE_TEAM_NONE);
+
+        this.captureProgress.fill(0);
+        this.captureTeam.fill(CAPTURE_TEAM_NONE);
+        this.lockedUntilTick.fill(0);
+        this.reinforcedTick.fill(0);
+        this.contestedCount = 0;
+    }
+
+    public getObjectOwnership(): Map<number, number> {
+        return this.objectOwnership;
+    }
+
+    public getMapData(): MapObjectData {
+        return this.mapData;
+    }
+
+    // Shared query over the territory objects for game mode logic. Results are only valid until its next query.
+    public getSpatialQuery(): SpatialQuery {
+        return this.query;
+    }
+
+    // Capture progress of the object in [0, 1], towards getCapturingTeam
+    public getCaptureProgress(uid: number): number {
+        return CAPTURE_PROGRESS_REQUIRED > 0 ? this.captureProgress[uid] / CAPTURE_PROGRESS_REQUIRED : 0;
+    }
+
+    // Team index currently capturing the object, or CAPTURE_TEAM_NONE
+    public getCapturingTeam(uid: number): number {
+        return this.captureTeam[uid];
+    }
+
+    // Number of objects that were contested during the last update
+    public getContestedCount(): number {
+        return this.contestedCount;
+    }
+
+    // Team index owning the most objects of the chunk, CAPTURE_TEAM_NONE while nobody owns any or the lead is shared
+    public getChunkOwner(chunkId: number): number {
+        return this.chunkOwners[chunkId];
+    }
+
+    // Number of objects that reverted to neutral through ownership decay
+    public getDecayedCount(): number {
+        return this.decayedCount;
+    }
+
+    // Number of territory objects encoded in the map
+    public getObjectCount(): number {
+        return this.mapData.objectCount;
+    }
+
+    public getLoadedChunkCount(): number {
+        return this.loadedChunkCount;
+    }
+
+    // Owned object count per team index, valid until the next call
+    public countTeamObjects(): Uint32Array {
+        this.teamObjectCounts.fill(0);
+        for (const team of this.objectOwnership.values()) {
+            if (team >= 0 && team < TEAM_COUNT) this.teamObjectCounts[team]++;
+        }
+        return this.teamObjectCounts;
+    }
+
+    // Helper function to get team scores for the UI, keyed by team id. The map is reused between calls.
+    public getTeamScores(): Map<number, number> {
+        const counts = this.countTeamObjects();
+        for (let team = 0; team < TEAM_COUNT; team++) {
+            this.teamScores.set(team + 1, counts[team]); // Convert team index to team id
+        }
+        return this.teamScores;
+    }
+
+    /**
+     * Team id with the most owned objects, or 0 if two or more teams share the lead.
+     */
+    public calculateCurrentWinner(): number {
+        return getLeadingTeam(this.countTeamObjects());
+    }
+
+    public update(): void {
+        // Tracked points double as the focus for budget eviction priority
+        this.budget.clearFocusPoints();
+        for (const trackedPoint of this.trackedPoints.values()) {
+            this.budget.addFocusPoint(trackedPoint.point);
+        }
+
+        // Claim objects for teams
+        this.tick++;
+        const touchedCount = this.gatherCapturePressure();
+        this.lastTouchedCount = touchedCount;
+        this.contestedCount = 0;
+        for (let i = 0; i < touchedCount; i++) {
+            this.advanceCapture(this.touchedObjects[i]);
+        }
+        if (OWNERSHIP_DECAY_MODE !== "off") this.decayOwnership();
+
+        if (CHUNK_STREAMING_ENABLED && this.streamTick++ % STREAM_UPDATE_INTERVAL_TICKS === 0) {
+            this.updateStreaming();
+        }
+
+        // Only objects whose owner changed (or that went missing) are spawned or respawned, a budgeted few per tick.
+        // Objects queued while applying wait for the next update.
+        this.retryParked();
+        const batchCount = this.takeSwapBatch();
+        for (let i = 0; i < batchCount; i++) {
+            this.applyOwnership(this.swapBatch[i]);
+        }
+        this.lastSwapCount = batchCount;
+        this.reportSwapBacklog();
+    }
+
+    // Owner changes still waiting for their material swap
+    public getSwapBacklog(): number {
+        return this.dirtyEnd - this.dirtyHead;
+    }
+
+    public getPeakSwapBacklog(): number {
+        return this.peakDirtyCount;
+    }
+
+    // Evicted or refused objects waiting for room in the budget
+    public getParkedCount(): number {
+        return this.parkedCount;
+    }
+
+    public getLastTouchedCount(): number {
+        return this.lastTouchedCount;
+    }
+
+    public getLastSwapCount(): number {
+        return this.lastSwapCount;
+    }
+
+    // Territory objects currently spawned, owned or not
+    public getSpawnedCount(): number {
+        return this.spawnedObjects.size;
+    }
+
+    // Total objects the player has captured
+    public getPlayerCaptures(playerId: number): number {
+        return this.playerCaptures[playerId];
+    }
+
+    // Objects currently owned by the player's team that the player captured
+    public getPlayerOwnedCount(playerId: number): number {
+        return this.playerOwned[playerId];
+    }
+
+    // Objects captured since the player's last deployment
+    public getPlayerStreak(playerId: number): number {
+        return this.playerStreaks[playerId];
+    }
+
+    // Undeploying ends the player's streak and stops crediting them until they deploy again
+    public setPlayerDeployed(playerId: number, deployed: boolean): void {
+        this.playerUndeployed[playerId] = deployed ? 0 : 1;
+        if (!deployed) this.playerStreaks[playerId] = 0;
+    }
+
+    // Drops all attribution of a player that left, so a later player with the same id starts from zero
+    public forgetPlayer(playerId: number): void {
+        for (let uid = 0; uid < this.mapData.objectCount; uid++) {
+            if (this.objectCapturers[uid] === playerId) this.objectCapturers[uid] = NO_PLAYER;
+        }
+        this.playerCaptures[playerId] = 0;
+        this.playerOwned[playerId] = 0;
+        this.playerStreaks[playerId] = 0;
+        this.playerUndeployed[playerId] = 0;
+    }
+
+    // Changes the owning team index, CAPTURE_TEAM_NONE returns the object to neutral. playerId is credited with it.
+    private setOwner(uid: number, team: number, playerId: number = NO_PLAYER): void {
+        const previous = this.objectOwnership.get(uid) ?? CAPTURE_TEAM_NONE;
+        if (previous === team) return;
+        // A tracked point left over from an undeployed player must never credit them
+        if (playerId !== NO_PLAYER && this.playerUndeployed[playerId] !== 0) playerId = NO_PLAYER;
+
+        if (team === CAPTURE_TEAM_NONE) this.objectOwnership.delete(uid);
+        else this.objectOwnership.set(uid, team);
+        this.markDirty(uid);
+        this.updateChunkOwner(this.mapData.chunkIds[uid], previous, team);
+
+        const previousCapturer = this.objectCapturers[uid];
+        if (previousCapturer !== NO_PLAYER) this.playerOwned[previousCapturer]--;
+        this.objectCapturers[uid] = playerId;
+        if (playerId !== NO_PLAYER) {
+            this.playerCaptures[playerId]++;
+            this.playerOwned[playerId]++;
+            this.playerStreaks[playerId]++;
+        }
+
+        if (gameEvents.has("onObjectCaptured")) gameEvents.emit("onObjectCaptured", uid, previous, team, playerId);
+    }
+
+    // Moves one object between the per chunk team counts and re-elects the chunk's owner
+    private updateChunkOwner(chunkId: number, fromTeam: number, toTeam: number): void {
+        const base = chunkId * TEAM_COUNT;
+        if (fromTeam !== CAPTURE_TEAM_NONE) this.chunkTeamCounts[base + fromTeam]--;
+        if (toTeam !== CAPTURE_TEAM_NONE) this.chunkTeamCounts[base + toTeam]++;
+
+        let owner = CAPTURE_TEAM_NONE;
+        let best = 0;
+        for (let team = 0; team < TEAM_COUNT; team++) {
+            const count = this.chunkTeamCounts[base + team];
+            if (count > best) {
+                best = count;
+                owner = team;
+            } else if (count === best) {
+                owner = CAPTURE_TEAM_NONE;
+            }
+        }
+
+        const previousOwner = this.chunkOwners[chunkId];
+        if (owner === previousOwner) return;
+        this.chunkOwners[chunkId] = owner;
+        if (gameEvents.has("onChunkOwnershipChanged"))
+            gameEvents.emit("onChunkOwnershipChanged", chunkId, previousOwner, owner);
+    }
+
+    // Records that the object's owner is present, holding off decay
+    private reinforce(uid: number, team: number): void {
+        if (OWNERSHIP_DECAY_MODE === "object") this.reinforcedTick[uid] = this.tick;
+        else if (OWNERSHIP_DECAY_MODE === "chunk")
+            this.reinforcedTick[this.mapData.chunkIds[uid] * TEAM_COUNT + team] = this.tick;
+    }
+
+    /**
+     * Reverts owned objects their owner has not reinforced for OWNERSHIP_DECAY_TICKS to neutral.
+     * Checks DECAY_CHECKS_PER_TICK uids per tick, continuing where the last tick stopped.
+     */
+    private decayOwnership(): void {
+        const checks = Math.min(DECAY_CHECKS_PER_TICK, this.mapData.objectCount);
+        for (let i = 0; i < checks; i++) {
+            const uid = this.decayCursor;
+            this.decayCursor = (this.decayCursor + 1) % this.mapData.objectCount;
+
+            const team = this.objectOwnership.get(uid);
+            if (team === undefined) continue;
+
+            const reinforced =
+                OWNERSHIP_DECAY_MODE === "chunk"
+                    ? this.reinforcedTick[this.mapData.chunkIds[uid] * TEAM_COUNT + team]
+                    : this.reinforcedTick[uid];
+            if (this.tick - reinforced <= OWNERSHIP_DECAY_TICKS) continue;
+
+            // The swap back to the authored type (or to unspawned without streaming) goes through the backlog like any
+            // other owner change
+            this.setOwner(uid, CAPTURE_TEAM_NONE);
+            this.captureProgress[uid] = 0;
+            this.captureTeam[uid] = CAPTURE_TEAM_NONE;
+            this.decayedCount++;
+        }
+    }
+
+    // Objects that should be spawned while the budget allows it: owned ones, and with streaming all of a loaded chunk
+    private isWanted(uid: number): boolean {
+        if (this.objectOwnership.has(uid)) return true;
+        return CHUNK_STREAMING_ENABLED && this.chunkLoaded[this.mapData.chunkIds[uid]] !== 0;
+    }
+
+    private park(uid: number): void {
+        if (this.parkedFlags[uid] !== 0) return;
+        this.parkedFlags[uid] = 1;
+        this.parkedObjects[this.parkedCount++] = uid;
+    }
+
+    // Moves parked objects back into the backlog, no more than the budget has room for
+    private retryParked(): void {
+        const count = Math.min(this.parkedCount, this.budget.getRetryRoom(), OWNERSHIP_SWAPS_PER_TICK);
+        for (let i = 0; i < count; i++) {
+            const uid = this.parkedObjects[--this.parkedCount];
+            this.parkedFlags[uid] = 0;
+            this.markDirty(uid);
+        }
+    }
+
+    private markDirty(uid: number): void {
+        if (this.dirtyFlags[uid] !== 0) return;
+        // Each uid is queued at most once, so a full array always has taken entries in front to reclaim
+        if (this.dirtyEnd === this.dirtyObjects.length) this.compactBacklog();
+        this.dirtyFlags[uid] = 1;
+        this.dirtyObjects[this.dirtyEnd++] = uid;
+        const backlog = this.dirtyEnd - this.dirtyHead;
+        if (backlog > this.peakDirtyCount) this.peakDirtyCount = backlog;
+    }
+
+    private compactBacklog(): void {
+        this.dirtyObjects.copyWithin(0, this.dirtyHead, this.dirtyEnd);
+        this.dirtyEnd -= this.dirtyHead;
+        this.sortedEnd = Math.max(0, this.sortedEnd - this.dirtyHead);
+        this.dirtyHead = 0;
+    }
+
+    /**
+     * Moves up to OWNERSHIP_SWAPS_PER_TICK backlog entries into swapBatch, closest to a tracked point first.
+     * Entries of unloaded chunks are dropped without using up the batch. Returns the number of uids taken.
+     */
+    private takeSwapBatch(): number {
+        if (this.dirtyHead === this.dirtyEnd) return 0;
+        if (this.dirtyHead >= this.sortedEnd || this.tick - this.lastSortTick >= SWAP_RESORT_INTERVAL_TICKS) {
+            this.sortBacklog();
+        }
+
+        let taken = 0;
+        while (taken < OWNERSHIP_SWAPS_PER_TICK && this.dirtyHead < this.dirtyEnd) {
+            const uid = this.dirtyObjects[this.dirtyHead++];
+            this.dirtyFlags[uid] = 0;
+            // Objects of unloaded chunks are queued again by loadChunk
+            if (CHUNK_STREAMING_ENABLED && this.chunkLoaded[this.mapData.chunkIds[uid]] === 0) continue;
+            this.swapBatch[taken++] = uid;
+        }
+
+        return taken;
+    }
+
+    /**
+     * Orders the backlog by the distance bucket of each entry's chunk to the closest tracked point, in linear time.
+     * Entries of unloaded chunks are dropped.
+     */
+    private sortBacklog(): void {
+        const chunkIds = this.mapData.chunkIds;
+        const offsets = this.bucketOffsets;
+        offsets.fill(0);
+        this.sortCount++;
+        this.lastSortTick = this.tick;
+
+        // Drop unloaded entries and count the entries per bucket, bucket distances are computed once per chunk
+        let count = 0;
+        for (let i = this.dirtyHead; i < this.dirtyEnd; i++) {
+            const uid = this.dirtyObjects[i];
+            const chunkId = chunkIds[uid];
+            if (CHUNK_STREAMING_ENABLED && this.chunkLoaded[chunkId] === 0) {
+                this.dirtyFlags[uid] = 0;
+                continue;
+            }
+
+            if (this.chunkBucketSort[chunkId] !== this.sortCount) {
+                this.chunkBucketSort[chunkId] = this.sortCount;
+                const distance = Math.sqrt(this.nearestTrackedPointDistanceSq(chunkId));
+                this.chunkBuckets[chunkId] = Math.min(Math.floor(distance / SWAP_BUCKET_SIZE), SWAP_BUCKET_COUNT - 1);
+            }
+            offsets[this.chunkBuckets[chunkId] + 1]++;
+            this.dirtyObjects[count++] = uid;
+        }
+
+        for (let bucket = 1; bucket <= SWAP_BUCKET_COUNT; bucket++) offsets[bucket] += offsets[bucket - 1];
+        for (let i = 0; i < count; i++) {
+            const uid = this.dirtyObjects[i];
+            this.sortScratch[offsets[this.chunkBuckets[chunkIds[uid]]]++] = uid;
+        }
+
+        const sorted = this.sortScratch;
+        this.sortScratch = this.dirtyObjects;
+        this.dirtyObjects = sorted;
+        this.dirtyHead = 0;
+        this.dirtyEnd = count;
+        this.sortedEnd = count;
+    }
+
+    private reportSwapBacklog(): void {
+        const backlog = this.getSwapBacklog();
+        if (backlog <= SWAP_BACKLOG_WARNING) {
+            if (backlog === 0 && this.backlogWarningReported) {
+                this.backlogWarningReported = false;
+                log.ownership.info(`Ownership swap backlog drained (peak ${this.peakDirtyCount} objects).`);
+            }
+            return;
+        }
+
+        if (this.backlogWarningReported) return;
+        this.backlogWarningReported = true;
+        log.ownership.warn(`Ownership swap backlog at ${backlog} objects (${OWNERSHIP_SWAPS_PER_TICK} swaps per tick).`);
+    }
+
+    // Spawns an owned object as its team's material (a neutral one of a loaded chunk as authored), respawning it if it is
+    // spawned as anything else
+    private applyOwnership(uid: number): void {
+        // Objects of unloaded chunks are queued again by loadChunk
+        if (CHUNK_STREAMING_ENABLED && this.chunkLoaded[this.mapData.chunkIds[uid]] === 0) return;
+        // Without streaming neutral objects are never spawned, a decayed or reset one goes back to unspawned
+        if (!this.isWanted(uid)) {
+            this.unspawnObject(uid);
+            return;
+        }
+
+        const team = this.objectOwnership.get(uid);
+        const desiredTypeId =
+            (team !== undefined ? this.teamMaterials.getPrefab(this.mapData.typeIndices[uid], team) : undefined) ??
+            this.mapData.getTypeId(uid);
+
+        const handle = this.spawnedObjects.get(uid);
+        if (handle !== undefined) {
+            if (this.spawnedTypes.get(uid) === desiredTypeId) return;
+
+            this.budget.unspawn(handle);
+            this.spawnedObjects.delete(uid);
+            this.spawnedTypes.delete(uid);
+        } else if (this.budget.getQueuedTypeId(this, uid) === desiredTypeId) {
+            return;
+        }
+
+        this.spawnObject(uid, desiredTypeId);
+    }
+
+    /**
+     * Sums the capture speed every team applies to each object in range of its tracked points this tick.
+     * Returns the number of objects touched, their uids are in touchedObjects.
+     */
+    private gatherCapturePressure(): number {
+        let touchedCount = 0;
+
+        for (const trackedPoint of this.trackedPoints.values()) {
+            if (trackedPoint.team < 0 || trackedPoint.team >= TEAM_COUNT) continue;
+
+            const p = trackedPoint.point;
+            const speed = CAPTURE_SPEED[trackedPoint.kind];
+            const count = this.query.sphere(p.x, p.y, p.z, trackedPoint.radius);
+            for (let i = 0; i < count; i++) {
+                const uid = this.query.results[i];
+                if (OWNERSHIP_DECAY_MODE !== "off" && this.objectOwnership.get(uid) === trackedPoint.team) {
+                    this.reinforce(uid, trackedPoint.team);
+                }
+
+                if (this.pressureTick[uid] !== this.tick) {
+                    this.pressureTick[uid] = this.tick;
+                    this.pressureTeam[uid] = trackedPoint.team;
+                    this.pressureSpeed[uid] = speed;
+                    this.pressurePlayer[uid] = trackedPoint.playerId;
+
+                    if (touchedCount === this.touchedObjects.length) {
+                        const grown = new Uint32Array(this.touchedObjects.length * 2);
+                        grown.set(this.touchedObjects);
+                        this.touchedObjects = grown;
+                    }
+                    this.touchedObjects[touchedCount++] = uid;
+                } else if (this.pressureTeam[uid] === trackedPoint.team) {
+                    this.pressureSpeed[uid] += speed;
+                    // Credit goes to the first player in range, a vehicle point only holds it until one shows up
+                    if (this.pressurePlayer[uid] === NO_PLAYER) this.pressurePlayer[uid] = trackedPoint.playerId;
+                } else {
+                    this.pressureTeam[uid] = CAPTURE_TEAM_CONTESTED;
+                }
+            }
+        }
+
+        return touchedCount;
+    }
+
+    private advanceCapture(uid: number): void {
+        const team = this.pressureTeam[uid];
+        if (team === CAPTURE_TEAM_CONTESTED) {
+            this.contestedCount++;
+            return;
+        }
+
+        const speed = this.pressureSpeed[uid];
+        if (this.objectOwnership.get(uid) === team) {
+            // Defenders push back whatever progress an attacker made
+            this.captureProgress[uid] = Math.max(0, this.captureProgress[uid] - speed);
+            if (this.captureProgress[uid] === 0) this.captureTeam[uid] = CAPTURE_TEAM_NONE;
+            return;
+        }
+
+        if (this.tick < this.lockedUntilTick[uid]) return;
+
+        if (this.captureTeam[uid] !== team) {
+            // Another attacker's progress has to be undone before this team starts its own
+            if (this.captureProgress[uid] > speed) {
+                this.captureProgress[uid] -= speed;
+                return;
+            }
+            this.captureTeam[uid] = team;
+            this.captureProgress[uid] = 0;
+        }
+
+        this.captureProgress[uid] += speed;
+        if (this.captureProgress[uid] < CAPTURE_PROGRESS_REQUIRED) return;
+
+        this.setOwner(uid, team, this.pressurePlayer[uid]);
+        this.reinforce(uid, team);
+        this.captureProgress[uid] = 0;
+        this.captureTeam[uid] = CAPTURE_TEAM_NONE;
+        this.lockedUntilTick[uid] = this.tick + CAPTURE_COOLDOWN_TICKS;
+    }
+
+    /**
+     * Loads chunks that came within STREAM_LOAD_RADIUS of a tracked point and unloads chunks that are
+     * further than STREAM_UNLOAD_RADIUS from all of them. Chunk changes are capped per update to avoid spikes.
+     */
+    private updateStreaming(): void {
+        const loadRadiusSq = STREAM_LOAD_RADIUS * STREAM_LOAD_RADIUS;
+        const unloadRadiusSq = STREAM_UNLOAD_RADIUS * STREAM_UNLOAD_RADIUS;
+        let changes = 0;
+
+        for (let chunkId = 0; chunkId < this.mapData.chunkCount; chunkId++) {
+            if (changes >= STREAM_MAX_CHUNK_CHANGES_PER_UPDATE) break;
+
+            const loaded = this.chunkLoaded[chunkId] !== 0;
+            const distSq = this.nearestTrackedPointDistanceSq(chunkId);
+            if (!loaded && distSq <= loadRadiusSq) {
+                this.loadChunk(chunkId);
+                changes++;
+            } else if (loaded && distSq > unloadRadiusSq) {
+                this.unloadChunk(chunkId);
+                changes++;
+            }
+        }
+    }
+
+    // Squared distance from the chunk's bounding box to the closest tracked point
+    private nearestTrackedPointDistanceSq(chunkId: number): number {
+        const size = this.mapData.chunkSize;
+        const minX = this.mapData.chunkCoords[chunkId * 3] * size;
+        const minY = this.mapData.chunkCoords[chunkId * 3 + 1] * size;
+        const minZ = this.mapData.chunkCoords[chunkId * 3 + 2] * size;
+        let nearestSq = Number.MAX_VALUE;
+
+        for (const trackedPoint of this.trackedPoints.values()) {
+            const p = trackedPoint.point;
+            const dx = p.x < minX ? minX - p.x : p.x > minX + size ? p.x - minX - size : 0;
+            const dy = p.y < minY ? minY - p.y : p.y > minY + size ? p.y - minY - size : 0;
+            const dz = p.z < minZ ? minZ - p.z : p.z > minZ + size ? p.z - minZ - size : 0;
+            const distSq = dx * dx + dy * dy + dz * dz;
+            if (distSq < nearestSq) nearestSq = distSq;
+        }
+
+        return nearestSq;
+    }
+
+    private loadChunk(chunkId: number): void {
+        this.chunkLoaded[chunkId] = 1;
+        this.loadedChunkCount++;
+
+        // Spawned through the swap backlog so a newly loaded chunk stays within OWNERSHIP_SWAPS_PER_TICK
+        const end = this.mapData.chunkEnds[chunkId];
+        for (let uid = this.mapData.chunkStarts[chunkId]; uid < end; uid++) {
+            if (this.objectOwnership.has(uid) || !this.spawnedObjects.has(uid)) this.markDirty(uid);
+        }
+    }
+
+    private unloadChunk(chunkId: number): void {
+        this.chunkLoaded[chunkId] = 0;
+        this.loadedChunkCount--;
+
+        const end = this.mapData.chunkEnds[chunkId];
+        for (let uid = this.mapData.chunkStarts[chunkId]; uid < end; uid++) this.unspawnObject(uid);
+    }
+
+    // Unspawns the object or cancels its queued spawn
+    private unspawnObject(uid: number): void {
+        this.budget.cancelQueued(this, uid);
+        const handle = this.spawnedObjects.get(uid);
+        if (handle === undefined) return;
+
+        this.budget.unspawn(handle);
+        this.spawnedObjects.delete(uid);
+        this.spawnedTypes.delete(uid);
+    }
+
+    private spawnObject(uid: number, typeId: number): void {
+        // mod.Vector instances are only created here, the parsed map data never holds them
+        const handle = this.budget.spawn({
+            client: this,
+            id: uid,
+            typeId,
+            position: this.mapData.createModPosition(uid),
+            rotation: this.mapData.createModRotation(uid),
+            scale: this.mapData.createModScale(uid),
+            x: this.mapData.getX(uid),
+            y: this.mapData.getY(uid),
+            z: this.mapData.getZ(uid),
+            basePriority: 0,
+        });
+        if (handle) this.onBudgetSpawned(uid, handle, typeId);
+        else if (this.budget.getQueuedTypeId(this, uid) === undefined && this.isWanted(uid)) this.park(uid);
+    }
+}
+
+// Stream layers: the territory layer feeds DynamicObjectManager, any other layer in the strings file
+// is spawned as authored and can be loaded/unloaded independently (per game mode or match phase)
+const TERRITORY_LAYER_PREFIX = "A";
+const STREAM_LAYERS: StreamLayerConfig[] = [
+    { prefix: "B", name: "cover", loadOnStart: true },
+    { prefix: "C", name: "decoration", loadOnStart: false },
+];
+// Objects a layer spawns per tick while loading, and unspawns per tick while unloading
+const LAYER_OBJECTS_PER_TICK = 64;
+const LAYER_UNSPAWNS_PER_TICK = 64;
+
+interface StreamLayerConfig {
+    prefix: string; // Key prefix of the stream in the strings file, e.g. "B" for keys B0, B1, ...
+    name: string;
+    loadOnStart: boolean;
+    toggleInteractPointId?: number; // Interact point that loads the layer while unloaded and unloads it otherwise
+}
+
+type StreamLayerState = "unloaded" | "verifying" | "parsing" | "spawning" | "loaded" | "unloading";
+
+/**
+ * An optional stream layer. Parsing and spawning both run incrementally across ticks, and unloading
+ * releases the parsed data again so an unused layer costs no memory.
+ */
+class StreamLayer implements ObjectBudgetClient {
+    private state: StreamLayerState = "unloaded";
+    private verification: StreamVerification | null = null;
+    private parser: IncrementalDataParser | null = null;
+    private mapData: MapObjectData | null = null;
+    private spawnedObjects = new Map<number, mod.SpatialObject>();
+    private spawnCursor = 0;
+
+    constructor(public readonly config: StreamLayerConfig, private readonly budget: ObjectBudgetManager) {}
+
+    public static existsInStrings(prefix: string): boolean {
+        const strings = (mod as any).strings;
+        return typeof strings === "object" && strings !== null && strings[`${prefix}0`] !== undefined;
+    }
+
+    public getState(): StreamLayerState {
+        return this.state;
+    }
+
+    // Loading progress in [0, 1], parsing and spawning each count for half
+    public getLoadProgress(): number {
+        switch (this.state) {
+            case "verifying":
+                return 0;
+            case "parsing":
+                return this.parser!.getProgress() * 0.5;
+            case "spawning":
+                return 0.5 + (this.spawnCursor / Math.max(this.mapData!.objectCount, 1)) * 0.5;
+            default:
+                return 1;
+        }
+    }
+
+    public load(): void {
+        if (this.state !== "unloaded" && this.state !== "unloading") return;
+
+        if (this.mapData) {
+            // Still holding the parsed data from an interrupted unload, respawn whatever is missing
+            this.spawnCursor = 0;
+            this.state = "spawning";
+        } else {
+            this.verification = new StreamVerification(this.config.prefix);
+            this.state = "verifying";
+        }
+        log.spawner.info(`Loading layer '${this.config.name}' (${this.config.prefix}).`);
+    }
+
+    public unload(): void {
+        if (this.state === "unloaded" || this.state === "unloading") return;
+
+        this.verification = null;
+        this.parser = null;
+        this.budget.cancelAllQueued(this);
+        this.state = this.mapData ? "unloading" : "unloaded";
+        log.spawner.info(`Unloading layer '${this.config.name}' (${this.config.prefix}).`);
+    }
+
+    public update(): void {
+        switch (this.state) {
+            case "verifying": {
+                const result = this.verification!.update();
+                if (result === "pending") break;
+
+                const corruptChunkFilter = this.verification!.getCorruptChunkFilter();
+                this.verification = null;
+                if (result === "refused") {
+                    this.state = "unloaded";
+                    break;
                 }
+
+                this.parser = new IncrementalDataParser(this.config.prefix, corruptChunkFilter);
+                this.parser.parseDataPalette();
+                this.state = "parsing";
+                break;
+            }
+            case "parsing":
+                if (this.parser!.processNextChunks()) {
+                    this.mapData = this.parser!.getResults();
+                    this.parser = null;
+                    if (this.mapData) this.budget.applyTypePriorities(this.mapData.mapType);
+                    this.spawnCursor = 0;
+                    this.state = "spawning";
+                }
+                break;
+            case "spawning":
+                this.spawnNext();
+                break;
+            case "unloading":
+                this.unspawnNext();
+                break;
+        }
+    }
+
+    public onBudgetSpawned(uid: number, handle: mod.SpatialObject, typeId: number): void {
+        this.spawnedObjects.set(uid, handle);
+    }
+
+    public onBudgetEvicted(uid: number): void {
+        this.spawnedObjects.delete(uid);
+    }
+
+    private spawnNext(): void {
+        const data = this.mapData!;
+        const end = Math.min(this.spawnCursor + LAYER_OBJECTS_PER_TICK, data.objectCount);
+
+        for (let uid = this.spawnCursor; uid < end; uid++) {
+            if (this.spawnedObjects.has(uid)) continue;
+
+            const typeId = data.getTypeId(uid);
+            const handle = this.budget.spawn({
+                client: this,
+                id: uid,
+                typeId,
+                position: data.createModPosition(uid),
+                rotation: data.createModRotation(uid),
+                scale: data.createModScale(uid),
+                x: data.getX(uid),
+                y: data.getY(uid),
+                z: data.getZ(uid),
+                basePriority: 0,
+            });
+            if (handle) this.onBudgetSpawned(uid, handle, typeId);
+        }
+
+        this.spawnCursor = end;
+        if (this.spawnCursor >= data.objectCount) {
+            this.state = "loaded";
+            log.spawner.info(
+                `Layer '${this.config.name}' (${this.config.prefix}) loaded, spawned=${this.spawnedObjects.size}.`
+            );
+        }
+    }
+
+    // Unspawns up to LAYER_UNSPAWNS_PER_TICK objects, the parsed data is released once none are left
+    private unspawnNext(): void {
+        let remaining = LAYER_UNSPAWNS_PER_TICK;
+        for (const [uid, handle] of this.spawnedObjects) {
+            if (remaining-- === 0) return;
+            this.budget.unspawn(handle);
+            this.spawnedObjects.delete(uid);
+        }
+
+        this.mapData = null;
+        this.state = "unloaded";
+        log.spawner.info(`Layer '${this.config.name}' (${this.config.prefix}) unloaded.`);
+    }
+}
+
+const streamLayers = new Map<string, StreamLayer>();
+
+function loadStreamLayer(prefix: string): void {
+    const layer = streamLayers.get(prefix);
+    if (!layer) {
+        log.spawner.warn(`Layer '${prefix}' is not present in the strings file.`);
+        return;
+    }
+
+    try {
+        layer.load();
+    } catch (error) {
+        log.spawner.error(`Layer '${prefix}' failed to load: ${error}`);
+        layer.unload();
+    }
+}
+
+function unloadStreamLayer(prefix: string): void {
+    streamLayers.get(prefix)?.unload();
+}
+
+function getStreamLayerState(prefix: string): StreamLayerState | undefined {
+    return streamLayers.get(prefix)?.getState();
+}
+
+// Loads an unloaded (or unloading) layer, unloads it in any other state
+function toggleStreamLayer(prefix: string): void {
+    const state = getStreamLayerState(prefix);
+    if (state === "unloaded" || state === "unloading") loadStreamLayer(prefix);
+    else if (state !== undefined) unloadStreamLayer(prefix);
+}
+
+function updateStreamLayers(): void {
+    for (const layer of streamLayers.values()) {
+        try {
+            layer.update();
+        } catch (error) {
+            log.spawner.error(`Layer '${layer.config.prefix}' failed: ${error}`);
+            layer.unload();
+        }
+    }
+}
+
+// Match rules, selected at startup. The match always ends when time runs out, and additionally as soon as any
+// of these conditions is met, e.g. [{ kind: "controlPercent", percent: 60 }, { kind: "majorityHold", seconds: 90 }]
+const WIN_CONDITIONS = runtimeConfig.read<WinCondition[]>(
+    "winConditions",
+    [],
+    'an array of { "kind": "scoreThreshold", "score" }, { "kind": "controlPercent", "percent" } or { "kind": "majorityHold", "seconds" }',
+    (value): value is WinCondition[] => {
+        if (!Array.isArray(value)) return false;
+        return value.every((condition) => {
+            if (typeof condition !== "object" || condition === null) return false;
+            const field = { scoreThreshold: "score", controlPercent: "percent", majorityHold: "seconds" }[
+                condition.kind as string
+            ];
+            const amount = field !== undefined ? condition[field] : undefined;
+            return typeof amount === "number" && amount > 0 && (condition.kind !== "controlPercent" || amount <= 100);
+        });
+    }
+);
+// Length of each round
+const MATCH_TIME_LIMIT_SECONDS = runtimeConfig.number("matchTimeLimitSeconds", 600, 1);
+// What a tie at time expiry leads to: a draw, or sudden death where the first team to take the lead wins
+const TIE_BREAK_MODE = runtimeConfig.oneOf<TieBreakMode>("tieBreakMode", "draw", ["draw", "suddenDeath"]);
+// Overtime added for sudden death, a tie after it is a draw
+const SUDDEN_DEATH_SECONDS = runtimeConfig.number("suddenDeathSeconds", 120, 1);
+
+type WinCondition =
+    | { kind: "scoreThreshold"; score: number } // A team owns at least this many objects
+    | { kind: "controlPercent"; percent: number } // A team owns at least this percentage of all encoded objects
+    | { kind: "majorityHold"; seconds: number }; // A team owns more objects than all others combined for this long
+
+type TieBreakMode = "draw" | "suddenDeath";
+
+interface MatchResult {
+    winner: number; // Team id, 0 for a draw
+    reason: string;
+}
+
+/**
+ * Evaluates WIN_CONDITIONS against the owned object counts every tick and handles time expiry and sudden death.
+ */
+class WinConditionTracker {
+    private readonly conditions: ReadonlyArray<WinCondition>;
+    private timeLimit = MATCH_TIME_LIMIT_SECONDS;
+    private suddenDeath = false;
+    private finished = false;
+    private started = false;
+
+    // Team id currently holding the majority, 0 if none, and the elapsed match time it took the majority at
+    private majorityTeam = 0;
+    private majoritySince = 0;
+
+    constructor(conditions: ReadonlyArray<WinCondition>) {
+        for (const condition of conditions) {
+            const value =
+                condition.kind === "scoreThreshold"
+                    ? condition.score
+                    : condition.kind === "controlPercent"
+                    ? condition.percent
+                    : condition.seconds;
+            if (!(value > 0) || (condition.kind === "controlPercent" && value > 100)) {
+                throw new Error(`Win condition '${condition.kind}' has an invalid value ${value}.`);
+            }
+        }
+        this.conditions = conditions;
+    }
+
+    /**
+     * Starts the timer and rule state of a new round. The match clock keeps running across rounds,
+     * so every round moves the time limit to MATCH_TIME_LIMIT_SECONDS past the current time.
+     */
+    public startRound(): void {
+        const roundStart = this.started ? this.getElapsedSeconds() : 0;
+        this.timeLimit = roundStart + MATCH_TIME_LIMIT_SECONDS;
+        this.suddenDeath = false;
+        this.finished = false;
+        this.started = true;
+        this.majorityTeam = 0;
+        this.majoritySince = roundStart;
+        mod.SetGameModeTimeLimit(this.timeLimit);
+    }
+
+    public isSuddenDeath(): boolean {
+        return this.suddenDeath;
+    }
+
+    // Team id holding the majority, 0 if none
+    public getMajorityTeam(): number {
+        return this.majorityTeam;
+    }
+
+    // Seconds the current majority has been held
+    public getMajorityHeldSeconds(): number {
+        return this.majorityTeam !== 0 ? this.getElapsedSeconds() - this.majoritySince : 0;
+    }
+
+    /**
+     * Checks the rules against the owned object count per team index. Returns the result once, the tick the match
+     * is decided, and undefined otherwise.
+     */
+    public update(counts: Uint32Array, totalObjects: number): MatchResult | undefined {
+        if (this.finished) return undefined;
+
+        const result = this.evaluate(counts, totalObjects);
+        if (result) this.finished = true;
+        return result;
+    }
+
+    private evaluate(counts: Uint32Array, totalObjects: number): MatchResult | undefined {
+        const leader = getLeadingTeam(counts);
+        const elapsed = this.getElapsedSeconds();
+        this.updateMajority(counts, elapsed);
+
+        if (this.suddenDeath && leader !== 0) return { winner: leader, reason: "sudden death" };
+
+        for (const condition of this.conditions) {
+            if (leader === 0) break;
+
+            const leaderCount = counts[leader - 1];
+            if (condition.kind === "scoreThreshold" && leaderCount >= condition.score) {
+                return { winner: leader, reason: `reached ${condition.score} objects` };
             }
+            if (condition.kind === "controlPercent" && leaderCount * 100 >= condition.percent * totalObjects) {
+                return { winner: leader, reason: `controls ${condition.percent}% of the map` };
+            }
+            if (
+                condition.kind === "majorityHold" &&
+                this.majorityTeam !== 0 &&
+                elapsed - this.majoritySince >= condition.seconds
+            ) {
+                return { winner: this.majorityTeam, reason: `held the majority for ${condition.seconds}s` };
+            }
+        }
+
+        if (mod.GetMatchTimeRemaining() > 0.5) return undefined;
+
+        if (leader !== 0) return { winner: leader, reason: this.suddenDeath ? "sudden death" : "time expired" };
+        if (TIE_BREAK_MODE === "suddenDeath" && !this.suddenDeath) {
+            this.suddenDeath = true;
+            this.timeLimit += SUDDEN_DEATH_SECONDS;
+            mod.SetGameModeTimeLimit(this.timeLimit);
+            log.game.info(`Scores tied at time expiry, sudden death for up to ${SUDDEN_DEATH_SECONDS}s.`);
+            return undefined;
+        }
+        return { winner: 0, reason: "tied at time expiry" };
+    }
+
+    private updateMajority(counts: Uint32Array, elapsed: number): void {
+        let total = 0;
+        for (let team = 0; team < TEAM_COUNT; team++) total += counts[team];
+
+        let majorityTeam = 0;
+        for (let team = 0; team < TEAM_COUNT; team++) {
+            if (counts[team] * 2 > total) majorityTeam = team + 1;
+        }
+
+        if (majorityTeam !== this.majorityTeam) {
+            this.majorityTeam = majorityTeam;
+            this.majoritySince = elapsed;
         }
+    }
+
+    // The time limit grows with sudden death, so elapsed time is measured against the current limit
+    private getElapsedSeconds(): number {
+        return this.timeLimit - mod.GetMatchTimeRemaining();
+    }
+}
+
+const winConditions = new WinConditionTracker(WIN_CONDITIONS);
+
+// Rounds in the series (best of). Between rounds the territory is restored to the authored map, 1 plays a single round.
+const MATCH_ROUNDS = runtimeConfig.integer("matchRounds", 1, 1, 99);
+
+/**
+ * Records round winners and the series score, and decides when the series is over.
+ */
+class RoundManager {
+    private readonly roundWins = new Uint32Array(TEAM_COUNT);
+    private readonly roundWinners: number[] = [];
+
+    constructor() {
+        if (!(MATCH_ROUNDS >= 1)) throw new Error(`MATCH_ROUNDS must be at least 1, got ${MATCH_ROUNDS}.`);
+    }
+
+    // 1-based number of the round being played
+    public getRound(): number {
+        return this.roundWinners.length + 1;
+    }
+
+    // Round wins per team index
+    public getSeriesScore(): Uint32Array {
+        return this.roundWins;
+    }
+
+    // Winning team id of each finished round, 0 for a drawn round
+    public getRoundWinners(): ReadonlyArray<number> {
+        return this.roundWinners;
+    }
 
-        // Collect desired objects: all owned objects
-        this.desiredObjectSet.clear();
-        for (const [uid, team] of this.objectOwnership) {
-            this.desiredObjectSet.add(uid);
-        }
-
-        // Spawn or update objects in desired (don't despawn any, only respawn when ownership changes)
-        for (const uid of this.desiredObjectSet) {
-            const objToSpawn = this.mapData.chunkObjects[uid];
-            const team = this.objectOwnership.get(uid)!;
-            const desiredTypeId = this.teamMaterialMap[team] || objToSpawn.typeId;
-
-            if (this.spawnedObjects.has(uid)) {
-                const handle = this.spawnedObjects.get(uid)!;
-                if (this.spawnedTypes.get(uid) !== desiredTypeId) {
-                    mod.UnspawnObject(handle);
-                    this.spawnedObjects.delete(uid);
-                    this.spawnedTypes.delete(uid);
-                    // Spawn new using pre-computed mod.Vector instances
-                    const newHandle = mod.SpawnObject(
-                        desiredTypeId,
-                        objToSpawn.modPosition,
-                        objToSpawn.modRotation,
-                        objToSpawn.modScale
-                    );
-                    this.spawnedObjects.set(uid, newHandle);
-                    this.spawnedTypes.set(uid, desiredTypeId);
-                }
-            } else {
-                // Spawn new using pre-computed mod.Vector instances
-                const handle = mod.SpawnObject(
-                    desiredTypeId,
-                    objToSpawn.modPosition,
-                    objToSpawn.modRotation,
-                    objToSpawn.modScale
-                );
-                this.spawnedObjects.set(uid, handle);
-                this.spawnedTypes.set(uid, desiredTypeId);
-            }
-        }
+    /**
+     * Records a finished round. Returns the series winner's team id (0 for a drawn series) once the series is over,
+     * undefined while rounds remain.
+     */
+    public recordRound(winner: number): number | undefined {
+        this.roundWinners.push(winner);
+        if (winner !== 0) this.roundWins[winner - 1]++;
+
+        const roundsToWin = Math.floor(MATCH_ROUNDS / 2) + 1;
+        if (winner !== 0 && this.roundWins[winner - 1] >= roundsToWin) return winner;
+        if (this.roundWinners.length >= MATCH_ROUNDS) return getLeadingTeam(this.roundWins);
+        return undefined;
     }
 }
 
+const rounds = new RoundManager();
+
+// Loading HUD and deploy/vehicle spawner holds while the map loads
+const LOADING_HUD_ENABLED = runtimeConfig.boolean("loadingHudEnabled", true);
+// Keep players from deploying until loading finishes
+const LOADING_HOLD_DEPLOY = runtimeConfig.boolean("loadingHoldDeploy", false);
+// Keep vehicle spawners disabled until loading finishes, otherwise they are enabled on the first deployment
+const LOADING_HOLD_VEHICLE_SPAWNERS = runtimeConfig.boolean("loadingHoldVehicleSpawners", true);
+
+let mapLoading = false;
+let loadingHud: LoadingHUD | null = null;
+
+let territoryVerification: StreamVerification | null = null;
 let parser: IncrementalDataParser | null = null;
+// Set when verifying or parsing the territory stream threw, the territory then stays empty for the whole match
+let territoryFailed = false;
 let objectManager: DynamicObjectManager | null = null;
+// Shared live object budget. Game mode code can read usage from here to react to a saturated map.
+const objectBudget = new ObjectBudgetManager();
 
 const teams: mod.HQ[] = [];
 const teamsPosition: mod.Vector[] = [];
 const teamSpawners: mod.VehicleSpawner[] = [];
 let teamDataSet = false;
 let vehicleSpawnersEnabled = false;
+let anyPlayerDeployed = false;
 
 function updateTeamData() {
     if (teamDataSet) return;
 
     // only enable spawners and HQ's once we have loaded all of the runtime spatial data
-    const team1Hq = mod.GetHQ(1);
-    const team2Hq = mod.GetHQ(2);
-    teams.push(team1Hq);
-    teams.push(team2Hq);
-
-    const team1HqPosition = mod.GetObjectPosition(team1Hq);
-    const team2HqPosition = mod.GetObjectPosition(team2Hq);
-    teamsPosition.push(team1HqPosition);
-    teamsPosition.push(team2HqPosition);
-
-    console.log(
-        `Team 1 HQ Position: (${mod.XComponentOf(team1HqPosition)}, ${mod.YComponentOf(team1HqPosition)}, ${mod.ZComponentOf(
-            team1HqPosition
-        )})`
-    );
-    console.log(
-        `Team 2 HQ Position: (${mod.XComponentOf(team2HqPosition)}, ${mod.YComponentOf(team2HqPosition)}, ${mod.ZComponentOf(
-            team2HqPosition
-        )})`
-    );
-
-    const team1Spawner = mod.GetVehicleSpawner(1);
-    const team2Spawner = mod.GetVehicleSpawner(2);
-    teamSpawners.push(team1Spawner);
-    teamSpawners.push(team2Spawner);
+    for (let teamId = 1; teamId <= TEAM_COUNT; teamId++) {
+        const hq = mod.GetHQ(teamId);
+        const hqPosition = mod.GetObjectPosition(hq);
+        teams.push(hq);
+        teamsPosition.push(hqPosition);
+        teamSpawners.push(mod.GetVehicleSpawner(teamId));
+
+        if (log.game.debugEnabled) {
+            log.game.debug(
+                `Team ${teamId} HQ Position: (${mod.XComponentOf(hqPosition)}, ${mod.YComponentOf(
+                    hqPosition
+                )}, ${mod.ZComponentOf(hqPosition)})`
+            );
+        }
+    }
     teamDataSet = true;
 
     // Vehicle spawners will be enabled when first player spawns on map
 }
 
 function enableVehicleSpawners(): void {
-    if (vehicleSpawnersEnabled || teamSpawners.length < 2) return;
+    if (vehicleSpawnersEnabled || teamSpawners.length < TEAM_COUNT) return;
+    if (mapLoading && LOADING_HOLD_VEHICLE_SPAWNERS) return;
 
-    mod.SetVehicleSpawnerAutoSpawn(teamSpawners[0], true);
-    mod.SetVehicleSpawnerAutoSpawn(teamSpawners[1], true);
+    for (const spawner of teamSpawners) {
+        mod.SetVehicleSpawnerAutoSpawn(spawner, true);
+    }
     vehicleSpawnersEnabled = true;
-    console.log("Vehicle spawners enabled - first player deployed!");
+    log.vehicles.info("Vehicle spawners enabled - first player deployed!");
 }
 
 // REMOVED: The old UI variables and functions are no longer needed
@@ -772,11 +3792,32 @@ function enableVehicleSpawners(): void {
  * Initializes the incremental parser.
  */
 export function OnGameModeStarted(): void {
-    console.log("Initializing incremental spatial data parser...");
-    parser = new IncrementalDataParser();
-    parser.parseDataPalette();
-    console.log("Parser ready. Chunk processing will happen incrementally during updates.");
-    mod.SetGameModeTimeLimit(600); // Set time limit to 10 minutes
+    runtimeConfig.reportUnknownKeys();
+
+    try {
+        territoryVerification = new StreamVerification(TERRITORY_LAYER_PREFIX);
+    } catch (error) {
+        failTerritory("verification setup", error);
+    }
+    updateTerritoryVerification();
+
+    for (const config of STREAM_LAYERS) {
+        if (config.prefix === TERRITORY_LAYER_PREFIX || streamLayers.has(config.prefix)) {
+            log.spawner.error(`Stream layer prefix '${config.prefix}' is already in use, ignoring '${config.name}'.`);
+            continue;
+        }
+        if (!StreamLayer.existsInStrings(config.prefix)) continue;
+
+        streamLayers.set(config.prefix, new StreamLayer(config, objectBudget));
+        if (config.loadOnStart) loadStreamLayer(config.prefix);
+    }
+
+    winConditions.startRound();
+
+    mapLoading = true;
+    if (LOADING_HUD_ENABLED) loadingHud = new LoadingHUD();
+    if (LOADING_HOLD_DEPLOY) mod.EnableAllPlayerDeploy(false);
+    if (!LOADING_HOLD_VEHICLE_SPAWNERS) updateTeamData();
 
     // INTEGRATION: Initialize the HUD Manager
     hudManager = new HUDManager();
@@ -787,73 +3828,147 @@ export function OnGameModeStarted(): void {
     // countdownText = mod.FindUIWidgetWithName("countdown");
 }
 
+/**
+ * Tracks territory parsing and the loading of layers with loadOnStart. Once everything is loaded the loading HUD
+ * is removed and the deploy and vehicle spawner holds are released.
+ */
+function updateLoading(): void {
+    if (!mapLoading) return;
+
+    // A refused or failed territory stream has no parser and counts as done
+    let progress = territoryVerification ? 0 : parser && !objectManager ? parser.getProgress() : 1;
+    let parts = 1;
+    let loaded = progress === 1;
+    for (const layer of streamLayers.values()) {
+        if (!layer.config.loadOnStart) continue;
+
+        const layerProgress = layer.getLoadProgress();
+        progress += layerProgress;
+        parts++;
+        if (layerProgress < 1) loaded = false;
+    }
+
+    if (!loaded) {
+        loadingHud?.setProgress(progress / parts);
+        return;
+    }
+
+    mapLoading = false;
+    if (territoryFailed) {
+        // Players are released onto the map without territory, the widget explains why
+        loadingHud?.showError();
+        log.game.warn("Map loaded without territory, its stream failed to parse.");
+    } else {
+        loadingHud?.destroy();
+        loadingHud = null;
+        log.game.info("Map loaded.");
+    }
+
+    if (LOADING_HOLD_DEPLOY) mod.EnableAllPlayerDeploy(true);
+    if (anyPlayerDeployed) {
+        updateTeamData();
+        enableVehicleSpawners();
+    }
+}
+
+// Creates the territory parser once its stream has been verified. A refused stream never gets a parser.
+function updateTerritoryVerification(): void {
+    if (!territoryVerification) return;
+
+    try {
+        const result = territoryVerification.update();
+        if (result === "pending") return;
+
+        const corruptChunkFilter = territoryVerification.getCorruptChunkFilter();
+        territoryVerification = null;
+        if (result === "refused") return;
+
+        log.parser.info("Initializing incremental spatial data parser...");
+        parser = new IncrementalDataParser(TERRITORY_LAYER_PREFIX, corruptChunkFilter);
+        parser.parseDataPalette();
+        log.parser.info("Parser ready. Chunk processing will happen incrementally during updates.");
+    } catch (error) {
+        failTerritory(parser ? "header and palette" : "verification", error);
+    }
+}
+
+// Drops the territory parser after an error, nothing of a partly parsed stream is used
+function failTerritory(stage: string, error: unknown): void {
+    log.parser.error(`Territory stream '${TERRITORY_LAYER_PREFIX}' failed during ${stage}: ${error}`);
+    territoryVerification = null;
+    parser = null;
+    territoryFailed = true;
+}
+
 function FindClosestTeam(vehicle: mod.Vehicle): number {
     let prevDistance = Number.MAX_VALUE;
     let closestIndex = -1;
     const vehPos = mod.GetVehicleState(vehicle, mod.VehicleStateVector.VehiclePosition);
 
     if (!vehPos) {
-        console.log(`[FindClosestTeam] ERROR - vehPos is NULL!`);
+        log.vehicles.warn(`[FindClosestTeam] Vehicle position is NULL.`);
         return -1;
     }
 
     if (teamSpawners.length === 0) {
-        console.log(`[FindClosestTeam] ERROR - teamSpawners array is empty!`);
+        log.vehicles.warn(`[FindClosestTeam] No team spawners are known yet.`);
         return -1;
     }
 
-    console.log(
-        `[FindClosestTeam] Vehicle Position: (${mod.XComponentOf(vehPos)}, ${mod.YComponentOf(vehPos)}, ${mod.ZComponentOf(
-            vehPos
-        )}), teamSpawners.length: ${teamSpawners.length}`
-    );
-
     for (let i = 0; i < teamSpawners.length; i++) {
         const spawnerPos = teamsPosition[i];
 
         if (!spawnerPos) {
-            console.log(`[FindClosestTeam] ERROR - Spawn ${i} Position is NULL!`);
+            log.vehicles.warn(`[FindClosestTeam] Spawn ${i} position is NULL.`);
             continue;
         }
 
-        console.log(
-            `[FindClosestTeam] Spawn ${i} Position: (${mod.XComponentOf(spawnerPos)}, ${mod.YComponentOf(
-                spawnerPos
-            )}, ${mod.ZComponentOf(spawnerPos)})`
-        );
         const dist = mod.DistanceBetween(spawnerPos, vehPos);
-        console.log(`[FindClosestTeam] Distance to Spawn ${i}: ${dist}`);
-
         if (dist < prevDistance) {
             prevDistance = dist;
             closestIndex = i;
         }
     }
 
-    console.log(`[FindClosestTeam] Closest team index: ${closestIndex}, distance: ${prevDistance}`);
+    if (log.vehicles.debugEnabled) {
+        log.vehicles.debug(`[FindClosestTeam] Closest team index: ${closestIndex}, distance: ${prevDistance}`);
+    }
     return closestIndex;
 }
 
-const VEHICLE_CAP_RADIUS = 30;
-const PLAYER_CAP_RADIUS = 15;
+const VEHICLE_CAP_RADIUS = runtimeConfig.number("vehicleCapRadius", 30, 0);
+const PLAYER_CAP_RADIUS = runtimeConfig.number("playerCapRadius", 15, 0);
 /**
  * Global update loop. Continues parsing chunks incrementally until complete,
  * then manages object spawning for all subsequent updates.
  */
 export function OngoingGlobal(): void {
-    if (!parser) return;
+    updateLogging();
+    updateStreamLayers();
+    updateLoading();
+    hudManager?.refreshDebug(objectManager);
+
+    if (!parser) {
+        updateTerritoryVerification();
+        return;
+    }
 
     // Chunk parsing has been implemented to run incrementally to avoid hitting loop execution limits.
     // Async use has been completely avoided to work around the async Promise leaks in the current runtime.
     if (!parser.isParsingComplete()) {
-        parser.processNextChunks();
-
-        if (parser.isParsingComplete()) {
-            const results = parser.getResults();
-            if (results) {
-                objectManager = new DynamicObjectManager(results);
-                console.log("Spatial manager ready.");
+        try {
+            parser.processNextChunks();
+
+            if (parser.isParsingComplete()) {
+                const results = parser.getResults();
+                if (results) {
+                    objectManager = new DynamicObjectManager(results, objectBudget);
+                    log.ownership.info("Spatial manager ready.");
+                }
             }
+        } catch (error) {
+            const stage = parser.isParsingComplete() ? "object manager setup" : `chunk ${parser.getCurrentChunkIndex()}`;
+            failTerritory(stage, error);
         }
         return;
     }
@@ -875,7 +3990,7 @@ export function OngoingGlobal(): void {
             const key = playerKeyMap.get(playerId);
             const teamId = playerTeam[playerId];
             if (key && teamId !== undefined) {
-                objectManager.addOrUpdateTrackedPoint(key, playerPos, PLAYER_CAP_RADIUS, teamId - 1);
+                objectManager.addOrUpdateTrackedPoint(key, playerPos, PLAYER_CAP_RADIUS, teamId - 1, "soldier", playerId);
             }
         }
 
@@ -886,38 +4001,48 @@ export function OngoingGlobal(): void {
             const key = vehKeyMap.get(vehId);
             const vehicleTeam = vehicleTeamId.get(vehId);
 
-            // Detailed logging for vehicle capture debugging
+            // Detailed logging for vehicle capture debugging, only built with the vehicles category at debug
             if (!key || vehicleTeam === undefined) {
-                console.log(`[Vehicle ${vehId}] SKIPPED - key: ${key ?? "NULL"}, vehicleTeam: ${vehicleTeam ?? "UNDEFINED"}`);
+                if (log.vehicles.debugEnabled) {
+                    log.vehicles.debug(
+                        `[Vehicle ${vehId}] SKIPPED - key: ${key ?? "NULL"}, vehicleTeam: ${vehicleTeam ?? "UNDEFINED"}`
+                    );
+                }
             } else if (!vehPos) {
-                console.log(`[Vehicle ${vehId}] SKIPPED - vehPos is NULL. key: ${key}, vehicleTeam: ${vehicleTeam}`);
+                if (log.vehicles.debugEnabled) {
+                    log.vehicles.debug(`[Vehicle ${vehId}] SKIPPED - vehPos is NULL. key: ${key}, vehicleTeam: ${vehicleTeam}`);
+                }
             } else {
-                // const posX = mod.XComponentOf(vehPos);
-                // const posY = mod.YComponentOf(vehPos);
-                // const posZ = mod.ZComponentOf(vehPos);
-                // console.log(
-                //     `[Vehicle ${vehId}] CAPTURING - key: ${key}, team: ${vehicleTeam}, pos: (${posX}, ${posY}, ${posZ}), radius: ${VEHICLE_CAP_RADIUS}`
-                // );
-                objectManager.addOrUpdateTrackedPoint(key, vehPos, VEHICLE_CAP_RADIUS, vehicleTeam);
+                objectManager.addOrUpdateTrackedPoint(key, vehPos, VEHICLE_CAP_RADIUS, vehicleTeam, "vehicle");
             }
         }
 
-        if (mod.GetMatchTimeRemaining() <= 0.5) {
-            // Calculate final scores and winner
-            const winner = objectManager.calculateCurrentWinner();
-            const ownership = objectManager!.getObjectOwnership();
-            let team0Count = 0;
-            let team1Count = 0;
-            for (const team of ownership.values()) {
-                if (team === 0) team0Count++;
-                else if (team === 1) team1Count++;
+        const counts = objectManager.countTeamObjects();
+        const result = winConditions.update(counts, objectManager.getObjectCount());
+        if (result) {
+            let summary = "";
+            for (let team = 0; team < TEAM_COUNT; team++) {
+                summary += `${team > 0 ? ", " : ""}Team ${team + 1}: ${counts[team]}`;
             }
 
-            console.log(`Final Scores - Team 1: ${team0Count}, Team 2: ${team1Count}. Winner: Team ${winner}`);
+            log.game.info(`Round ${rounds.getRound()} Scores - ${summary}. Winner: Team ${result.winner} (${result.reason})`);
+
+            const seriesWinner = rounds.recordRound(result.winner);
+            if (seriesWinner !== undefined) {
+                const seriesScore = rounds.getSeriesScore();
+                let seriesSummary = "";
+                for (let team = 0; team < TEAM_COUNT; team++) {
+                    seriesSummary += `${team > 0 ? ", " : ""}Team ${team + 1}: ${seriesScore[team]}`;
+                }
 
-            mod.EndGameMode(mod.GetTeam(winner));
+                log.game.info(`Final Series Score - ${seriesSummary}. Winner: Team ${seriesWinner}`);
+                mod.EndGameMode(mod.GetTeam(seriesWinner));
+            } else {
+                startNextRound(objectManager);
+            }
         }
 
+        objectBudget.update();
         objectManager.update();
 
         // Update global teamScores cache for UI widgets to use (reuse Map to avoid allocations)
@@ -929,19 +4054,29 @@ export function OngoingGlobal(): void {
 
         // INTEGRATION: Refresh all player HUDs with the latest scores
         if (hudManager) {
-            hudManager.refreshAll(teamScores);
+            hudManager.refreshAll(teamScores, objectManager);
         }
     }
 }
 
+// Restores the authored territory from the parsed map data and resets the round timer and HUD
+function startNextRound(manager: DynamicObjectManager): void {
+    log.game.info(`Starting round ${rounds.getRound()} of ${MATCH_ROUNDS}.`);
+    manager.resetOwnership();
+    winConditions.startRound();
+
+    for (const teamId of teamScores.keys()) teamScores.set(teamId, 0);
+    hudManager?.reset();
+}
+
 // Cache player and vehicle keys for tracked points to avoid additional string allocations each update
 const playerKeyMap: Map<number, string> = new Map<number, string>();
 const vehKeyMap: Map<number, string> = new Map<number, string>();
 
 // Manually track players and vehicles to avoid having to either call AllPlayers/OngoingPlayer
 // which would add significant overhead per update loop and risk memory leaks
-const players = Array<mod.Player | undefined>(256);
-const playerDeployments = Array<boolean>(256);
+const players = Array<mod.Player | undefined>(MAX_PLAYERS);
+const playerDeployments = Array<boolean>(MAX_PLAYERS);
 let playerCount = 0;
 
 const playerTeam = new Array<number | undefined>();
@@ -952,6 +4087,8 @@ const vehicleTeamId = new Map<number, number>();
 export function OnPlayerDeployed(player: mod.Player): void {
     const playerId = mod.GetObjId(player);
     playerDeployments[playerId] = true;
+    anyPlayerDeployed = true;
+    objectManager?.setPlayerDeployed(playerId, true);
 
     // Enable vehicle spawners on first player deployment
     enableVehicleSpawners();
@@ -960,6 +4097,11 @@ export function OnPlayerDeployed(player: mod.Player): void {
 export function OnPlayerUndeploy(player: mod.Player): void {
     const playerId = mod.GetObjId(player);
     playerDeployments[playerId] = false;
+
+    // Stop capturing and streaming around the spot the player died at
+    const key = playerKeyMap.get(playerId);
+    if (key) objectManager?.removeTrackedPoint(key);
+    objectManager?.setPlayerDeployed(playerId, false);
 }
 
 // This will trigger when a Vehicle is destroyed.
@@ -968,7 +4110,7 @@ export function OnVehicleDestroyed(vehicle: mod.Vehicle): void {
     if (!vehKeyMap.get(vehId)) vehKeyMap.set(vehId, `vehicle_${vehId}`);
     vehicles.delete(vehId);
     objectManager?.removeTrackedPoint(vehKeyMap.get(vehId)!);
-    console.log(`Vehicle ${vehId} Destroyed! ${vehKeyMap.get(vehId)}`);
+    log.vehicles.info(`Vehicle ${vehId} Destroyed! ${vehKeyMap.get(vehId)}`);
 }
 
 // This will trigger when a Vehicle is called into the map.
@@ -980,18 +4122,34 @@ export function OnVehicleSpawned(vehicle: mod.Vehicle): void {
     const closestTeam = FindClosestTeam(vehicle);
     vehicleTeamId.set(vehId, closestTeam);
 
+    if (!log.vehicles.debugEnabled) return;
+
     const vehPos = mod.GetVehicleState(vehicle, mod.VehicleStateVector.VehiclePosition);
     const posX = vehPos ? mod.XComponentOf(vehPos) : "NULL";
     const posY = vehPos ? mod.YComponentOf(vehPos) : "NULL";
     const posZ = vehPos ? mod.ZComponentOf(vehPos) : "NULL";
 
-    console.log(
+    log.vehicles.debug(
         `[OnVehicleSpawned] Vehicle ${vehId} - key: ${vehKeyMap.get(
             vehId
         )}, team: ${closestTeam}, pos: (${posX}, ${posY}, ${posZ})`
     );
 }
 
+// Layers with a toggleInteractPointId are loaded and unloaded from their interact point, and
+// DEBUG_HUD_TOGGLE_INTERACT_POINT_ID turns the debug HUD on and off
+export function OnPlayerInteract(player: mod.Player, interactPoint: mod.InteractPoint): void {
+    const interactPointId = mod.GetObjId(interactPoint);
+    if (interactPointId === DEBUG_HUD_TOGGLE_INTERACT_POINT_ID) hudManager?.toggleDebugHud(mod.GetObjId(player));
+
+    for (const layer of streamLayers.values()) {
+        if (layer.config.toggleInteractPointId !== interactPointId) continue;
+
+        log.spawner.info(`Player ${mod.GetObjId(player)} toggled layer '${layer.config.name}'.`);
+        toggleStreamLayer(layer.config.prefix);
+    }
+}
+
 export function OnPlayerJoinGame(player: mod.Player): void {
     const playerId = mod.GetObjId(player);
     const playerKey: string = `player_${playerId}`;
@@ -1003,8 +4161,9 @@ export function OnPlayerJoinGame(player: mod.Player): void {
     const teamId = mod.GetObjId(team);
 
     playerTeam[playerId] = teamId;
+    hudManager?.addPlayer(player);
 
-    console.log(`Player ${playerId} Joined!`);
+    log.game.info(`Player ${playerId} Joined!`);
 }
 
 export function OnPlayerLeaveGame(playerId: number): void {
@@ -1013,14 +4172,16 @@ export function OnPlayerLeaveGame(playerId: number): void {
         if (key) {
             objectManager.removeTrackedPoint(key);
         }
+        objectManager.forgetPlayer(playerId);
     }
+    hudManager?.removePlayer(playerId);
 
     playerKeyMap.delete(playerId);
     players[playerId] = undefined;
     playerDeployments[playerId] = false;
     playerTeam[playerId] = undefined;
     playerCount--;
-    console.log(`Player ${playerId} Left!`);
+    log.game.info(`Player ${playerId} Left!`);
 }
 
 // ==============================================================================================
@@ -1032,14 +4193,14 @@ export function OnPlayerLeaveGame(playerId: number): void {
 const DefaultGrayColor = mod.CreateVector(0.5, 0.5, 0.5);
 const DefaultWhiteColor = mod.CreateVector(1, 1, 1);
 
-const TeamColors = new Map<number, mod.Vector>([
-    [1, mod.CreateVector(0.1, 0.4, 0.8)], // Blue for Team 1
-    [2, mod.CreateVector(0.8, 0.3, 0.1)], // Orange for Team 2
-]);
-const TeamColorsLight = new Map<number, mod.Vector>([
-    [1, mod.CreateVector(0.7, 0.8, 1.0)], // Light Blue
-    [2, mod.CreateVector(1.0, 0.8, 0.7)], // Light Orange
-]);
+// Keyed by team id, built once from TEAM_CONFIGS
+const TeamColors = new Map<number, mod.Vector>();
+const TeamColorsLight = new Map<number, mod.Vector>();
+for (let team = 0; team < TEAM_COUNT; team++) {
+    const config = TEAM_CONFIGS[team];
+    TeamColors.set(team + 1, mod.CreateVector(config.color[0], config.color[1], config.color[2]));
+    TeamColorsLight.set(team + 1, mod.CreateVector(config.lightColor[0], config.lightColor[1], config.lightColor[2]));
+}
 
 function GetTeamColorById(teamId: number): mod.Vector {
     return TeamColors.get(teamId) ?? DefaultGrayColor;
@@ -1063,33 +4224,14 @@ function VectorClampToRange(vec: mod.Vector, min: number, max: number): mod.Vect
     return mod.CreateVector(x, y, z);
 }
 
-// Get array of team IDs that are currently leading (highest score)
-function GetLeadingTeamIDs(): number[] {
-    if (!objectManager) return [];
-    const scores = objectManager.getTeamScores();
-    let maxScore = -1;
-    const leadingTeams: number[] = [];
-
-    for (const [teamId, score] of scores) {
-        if (score > maxScore) {
-            maxScore = score;
-            leadingTeams.length = 0;
-            leadingTeams.push(teamId);
-        } else if (score === maxScore) {
-            leadingTeams.push(teamId);
-        }
-    }
-
-    return leadingTeams;
-}
-
 // Cache of current team scores for UI updates - reused each frame to avoid allocations
-let teamScores: Map<number, number> = new Map([
-    [1, 0],
-    [2, 0],
-]);
+let teamScores: Map<number, number> = new Map();
+for (let teamId = 1; teamId <= TEAM_COUNT; teamId++) teamScores.set(teamId, 0);
 
 // --- BASE WIDGET ---
+const TICKER_PULSE_TICKS = 90;
+const TICKER_PULSE_PERIOD_TICKS = 30;
+
 interface TickerWidgetParams {
     position: number[];
     size: number[];
@@ -1139,6 +4281,7 @@ abstract class TickerWidget {
 
     // Animation
     isPulsing = false;
+    private pulseTicksLeft = 0;
 
     constructor(params: TickerWidgetParams) {
         this.parent = params.parent;
@@ -1367,6 +4510,32 @@ abstract class TickerWidget {
         if (this.rightBracketBottom) mod.SetUIWidgetVisible(this.rightBracketBottom, show);
     }
 
+    /**
+     * Start pulsing the background for the given number of ticks
+     */
+    public pulse(durationTicks: number = TICKER_PULSE_TICKS): void {
+        this.isPulsing = true;
+        this.pulseTicksLeft = durationTicks;
+    }
+
+    /**
+     * Advance the pulse animation by one tick, called from refresh
+     */
+    protected updatePulse(): void {
+        if (!this.isPulsing) return;
+
+        if (--this.pulseTicksLeft <= 0) {
+            this.isPulsing = false;
+            mod.SetUIWidgetBgAlpha(this.columnWidget, this.bgAlpha);
+            return;
+        }
+
+        // Fades towards fully opaque and back, TICKER_PULSE_PERIOD_TICKS per cycle
+        const phase = (this.pulseTicksLeft % TICKER_PULSE_PERIOD_TICKS) / TICKER_PULSE_PERIOD_TICKS;
+        const wave = 0.5 - 0.5 * Math.cos(phase * Math.PI * 2);
+        mod.SetUIWidgetBgAlpha(this.columnWidget, this.bgAlpha + (1 - this.bgAlpha) * wave);
+    }
+
     /**
      * Refresh the widget - should be implemented by subclasses
      */
@@ -1409,7 +4578,7 @@ class ScoreTicker extends TickerWidget {
     }
 
     /**
-     * Update the score display and leading indicator
+     * Update the score display. The leading indicator is set by LeadAnnouncer.
      */
     public updateScore(): void {
         const score = teamScores.get(this.teamId) ?? 0;
@@ -1418,15 +4587,6 @@ class ScoreTicker extends TickerWidget {
         if (this.currentScore !== score) {
             this.currentScore = score;
             this.updateText(mod.Message(score));
-
-            // Show brackets only if this team is the sole leader (no ties)
-            let leadingTeams = GetLeadingTeamIDs();
-            // console.log(`Leading teams: ${leadingTeams.join(", ")}`);
-            if (leadingTeams.length === 1 && leadingTeams.includes(this.teamId)) {
-                this.setLeading(true);
-            } else {
-                this.setLeading(true);
-            }
         }
     }
 
@@ -1435,8 +4595,7 @@ class ScoreTicker extends TickerWidget {
      * @param isLeading True if this team is leading (not tied)
      */
     public setLeading(isLeading: boolean): void {
-        // console.log(`Score ticker leading: ${isLeading}`);
-
+        if (this.isLeading === isLeading) return;
         this.isLeading = isLeading;
         this.showBrackets(isLeading);
     }
@@ -1456,10 +4615,11 @@ class ScoreTicker extends TickerWidget {
     }
 
     /**
-     * Refresh both score and leading status
+     * Refresh the score and advance the pulse animation
      */
     public refresh(): void {
         this.updateScore();
+        this.updatePulse();
     }
 
     /**
@@ -1521,214 +4681,769 @@ class RoundTimer extends TickerWidget {
             bgAlpha: 0,
         })!;
 
-        this.minutesText = modlib.ParseUI({
-            type: "Text",
-            parent: this.columnWidget,
-            position: [-this.seperatorPadding, 0],
-            size: [5, 24],
-            anchor: mod.UIAnchor.Center,
-            textAnchor: mod.UIAnchor.CenterRight,
-            textSize: this.textSize,
-            textLabel: "",
-            textColor: this.textColor,
-            bgAlpha: 0,
-        })!;
+        this.minutesText = modlib.ParseUI({
+            type: "Text",
+            parent: this.columnWidget,
+            position: [-this.seperatorPadding, 0],
+            size: [5, 24],
+            anchor: mod.UIAnchor.Center,
+            textAnchor: mod.UIAnchor.CenterRight,
+            textSize: this.textSize,
+            textLabel: "",
+            textColor: this.textColor,
+            bgAlpha: 0,
+        })!;
+
+        this.seperatorText = modlib.ParseUI({
+            type: "Text",
+            parent: this.columnWidget,
+            position: [0, 0],
+            size: [30, 24],
+            anchor: mod.UIAnchor.Center,
+            textAnchor: mod.UIAnchor.Center,
+            textSize: this.textSize,
+            textLabel: mod.stringkeys.score_timer_seperator,
+            textColor: this.textColor,
+            bgAlpha: 0,
+        })!;
+
+        this.refresh();
+    }
+
+    /**
+     * Update the timer display with remaining game time
+     */
+    public updateTime(): void {
+        const remainingTime = mod.GetMatchTimeRemaining();
+        const timeSeconds = Math.floor(remainingTime);
+
+        // Only update if time has changed
+        if (this.currentTimeSeconds !== timeSeconds) {
+            // Update time values and floor/pad values
+            this.currentTimeSeconds = timeSeconds % 60;
+            this.currentTimeMinutes = Math.floor(timeSeconds / 60);
+            const secondsTensDigit = Math.floor(this.currentTimeSeconds / 10);
+            const secondsOnesDigit = this.currentTimeSeconds % 10;
+
+            // Update text labels
+            mod.SetUITextLabel(this.minutesText, mod.Message(mod.stringkeys.score_timer_minutes, this.currentTimeMinutes));
+            mod.SetUITextLabel(
+                this.secondsText,
+                mod.Message(mod.stringkeys.score_timer_seconds, secondsTensDigit, secondsOnesDigit)
+            );
+        }
+    }
+
+    /**
+     * Refresh - called by the HUD update loop to refresh timer display
+     */
+    public refresh(): void {
+        this.updateTime();
+    }
+
+    /**
+     * Clean up UI widgets
+     */
+    public destroy(): void {
+        mod.DeleteUIWidget(this.columnWidget);
+        mod.DeleteUIWidget(this.columnWidgetOutline);
+    }
+}
+
+// --- SCORE PROGRESS BAR ---
+// One segment per team laid out left to right, each as wide as that team's share of the total score
+class ScoreProgressBar {
+    private rootContainer: mod.UIWidget;
+    private teamBars: mod.UIWidget[] = [];
+    private barWidth: number;
+    private barHeight: number;
+
+    constructor(params: any) {
+        this.barWidth = params.size[0];
+        this.barHeight = params.size[1];
+        this.rootContainer = modlib.ParseUI({
+            type: "Container",
+            parent: params.parent,
+            position: params.position,
+            size: [this.barWidth, this.barHeight],
+            anchor: mod.UIAnchor.TopCenter,
+            bgFill: mod.UIBgFill.Blur,
+            bgColor: [0, 0, 0],
+            bgAlpha: 0,
+        })!;
+
+        mod.SetUIWidgetBgAlpha(this.rootContainer, 0);
+
+        const segmentWidth = this.barWidth / TEAM_COUNT;
+        for (let team = 0; team < TEAM_COUNT; team++) {
+            const teamColor = GetTeamColorById(team + 1);
+            const bar = modlib.ParseUI({
+                type: "Container",
+                parent: this.rootContainer,
+                position: [segmentWidth * team, 0],
+                size: [segmentWidth, this.barHeight],
+                anchor: mod.UIAnchor.CenterLeft,
+                bgFill: mod.UIBgFill.Solid,
+                bgColor: teamColor,
+                bgAlpha: 0.9,
+            })!;
+
+            mod.SetUIWidgetBgFill(bar, mod.UIBgFill.Solid);
+            mod.SetUIWidgetBgColor(bar, teamColor);
+            mod.SetUIWidgetBgAlpha(bar, 0.9);
+            this.teamBars.push(bar);
+        }
+    }
+
+    public refresh(scores: Map<number, number>): void {
+        let totalScore = 0;
+        for (let team = 0; team < TEAM_COUNT; team++) totalScore += scores.get(team + 1) ?? 0;
+
+        let offset = 0;
+        for (let team = 0; team < TEAM_COUNT; team++) {
+            const share = totalScore === 0 ? 1 / TEAM_COUNT : (scores.get(team + 1) ?? 0) / totalScore;
+            const width = this.barWidth * share;
+            mod.SetUIWidgetPosition(this.teamBars[team], mod.CreateVector(offset, 0, 0));
+            mod.SetUIWidgetSize(this.teamBars[team], mod.CreateVector(width, this.barHeight, 0));
+            offset += width;
+        }
+    }
+    public destroy(): void {
+        mod.DeleteUIWidget(this.rootContainer);
+    }
+}
+
+// --- GLOBAL SCORE HUD ---
+class ConquestScoreHUD {
+    private rootWidget: mod.UIWidget;
+    private teamScoreTickers: Map<number, ScoreTicker> = new Map();
+    private timerTicker: RoundTimer;
+    private scoreBar: ScoreProgressBar;
+
+    constructor() {
+        // Two teams sit either side of the score bar, more teams share a row below the timer with the bar underneath
+        const sideBySide = TEAM_COUNT === 2;
+        const teamScoreSpacing = 490;
+        const teamScorePaddingTop = sideBySide ? 68 : 76;
+        const teamWidgetSize = [76, 30];
+        const barHeight = 12;
+        const barPosY = sideBySide
+            ? teamScorePaddingTop + teamWidgetSize[1] / 2 - barHeight / 2 // Center vertically
+            : teamScorePaddingTop + teamWidgetSize[1] + 8;
+
+        // Create global UI widget (not tied to any specific player)
+        this.rootWidget = modlib.ParseUI({
+            type: "Container",
+            size: [700, sideBySide ? 100 : barPosY + barHeight],
+            position: [0, 20, 0],
+            anchor: mod.UIAnchor.TopCenter,
+            bgFill: mod.UIBgFill.Blur,
+            bgColor: [0, 0, 0],
+            bgAlpha: 0.0,
+        })!;
+
+        for (let team = 0; team < TEAM_COUNT; team++) {
+            const teamId = team + 1;
+            this.teamScoreTickers.set(
+                teamId,
+                new ScoreTicker({
+                    parent: this.rootWidget,
+                    position: [teamScoreSpacing * (team / (TEAM_COUNT - 1) - 0.5), teamScorePaddingTop],
+                    size: teamWidgetSize,
+                    teamId,
+                    textSize: 24,
+                })
+            );
+        }
+
+        const barWidth = sideBySide ? teamScoreSpacing - teamWidgetSize[0] - 20 : teamScoreSpacing + teamWidgetSize[0];
+        this.scoreBar = new ScoreProgressBar({
+            position: [0, barPosY],
+            size: [barWidth, barHeight],
+            parent: this.rootWidget,
+        });
+
+        this.timerTicker = new RoundTimer({ position: [0, 48], parent: this.rootWidget, textSize: 26, size: [100, 22] });
+    }
+
+    public refresh(scores: Map<number, number>): void {
+        this.teamScoreTickers.forEach((t) => t.refresh());
+        this.timerTicker.refresh();
+        this.scoreBar.refresh(scores);
+    }
+
+    // Brackets go on the sole leader only, 0 clears them from every ticker
+    public setLeader(teamId: number): void {
+        this.teamScoreTickers.forEach((t) => t.setLeading(t.getTeamId() === teamId));
+    }
+
+    public pulseTeam(teamId: number): void {
+        this.teamScoreTickers.get(teamId)?.pulse();
+    }
+
+    public destroy(): void {
+        this.teamScoreTickers.forEach((t) => t.destroy());
+        this.timerTicker.destroy();
+        this.scoreBar.destroy();
+        mod.DeleteUIWidget(this.rootWidget);
+    }
+}
+
+// --- PERSONAL HUD ---
+// Streak the indicator shows up at
+const STREAK_INDICATOR_MIN = 3;
+
+// Per-player panel with the player's captures, their share of the team's territory and their capture streak
+class PlayerHUD {
+    readonly playerId: number;
+    private rootWidget: mod.UIWidget;
+    private capturesText: mod.UIWidget;
+    private shareText: mod.UIWidget;
+    private streakText: mod.UIWidget;
+
+    // Last shown values, the widgets are only touched when one changes
+    private shownCaptures = -1;
+    private shownShare = -1;
+    private shownStreak = -1;
+
+    constructor(player: mod.Player) {
+        this.playerId = mod.GetObjId(player);
+
+        this.rootWidget = modlib.ParseUI({
+            type: "Container",
+            playerId: player,
+            size: [220, 84],
+            position: [20, 220, 0],
+            anchor: mod.UIAnchor.CenterLeft,
+            bgFill: mod.UIBgFill.Blur,
+            bgColor: [0, 0, 0],
+            bgAlpha: 0.5,
+        })!;
+
+        this.capturesText = this.createLine(player, 8);
+        this.shareText = this.createLine(player, 32);
+        this.streakText = this.createLine(player, 56);
+        mod.SetUIWidgetVisible(this.streakText, false);
+    }
 
-        this.seperatorText = modlib.ParseUI({
+    private createLine(player: mod.Player, y: number): mod.UIWidget {
+        return modlib.ParseUI({
             type: "Text",
-            parent: this.columnWidget,
-            position: [0, 0],
-            size: [30, 24],
-            anchor: mod.UIAnchor.Center,
-            textAnchor: mod.UIAnchor.Center,
-            textSize: this.textSize,
-            textLabel: mod.stringkeys.score_timer_seperator,
-            textColor: this.textColor,
+            playerId: player,
+            parent: this.rootWidget,
+            position: [12, y],
+            size: [196, 20],
+            anchor: mod.UIAnchor.TopLeft,
+            textAnchor: mod.UIAnchor.CenterLeft,
+            textSize: 16,
+            textLabel: "",
+            textColor: [1, 1, 1],
             bgAlpha: 0,
         })!;
-
-        this.refresh();
     }
 
-    /**
-     * Update the timer display with remaining game time
-     */
-    public updateTime(): void {
-        const remainingTime = mod.GetMatchTimeRemaining();
-        const timeSeconds = Math.floor(remainingTime);
-
-        // Only update if time has changed
-        if (this.currentTimeSeconds !== timeSeconds) {
-            // Update time values and floor/pad values
-            this.currentTimeSeconds = timeSeconds % 60;
-            this.currentTimeMinutes = Math.floor(timeSeconds / 60);
-            const secondsTensDigit = Math.floor(this.currentTimeSeconds / 10);
-            const secondsOnesDigit = this.currentTimeSeconds % 10;
+    public refresh(manager: DynamicObjectManager | null, scores: Map<number, number>): void {
+        const captures = manager ? manager.getPlayerCaptures(this.playerId) : 0;
+        const owned = manager ? manager.getPlayerOwnedCount(this.playerId) : 0;
+        const streak = manager ? manager.getPlayerStreak(this.playerId) : 0;
+        const teamId = playerTeam[this.playerId];
+        const teamScore = teamId !== undefined ? scores.get(teamId) ?? 0 : 0;
+        const share = teamScore > 0 ? Math.round((owned / teamScore) * 100) : 0;
+
+        if (captures !== this.shownCaptures) {
+            this.shownCaptures = captures;
+            mod.SetUITextLabel(this.capturesText, mod.Message(mod.stringkeys.personal_captures, captures));
+        }
 
-            // Update text labels
-            mod.SetUITextLabel(this.minutesText, mod.Message(mod.stringkeys.score_timer_minutes, this.currentTimeMinutes));
-            mod.SetUITextLabel(
-                this.secondsText,
-                mod.Message(mod.stringkeys.score_timer_seconds, secondsTensDigit, secondsOnesDigit)
-            );
+        if (share !== this.shownShare) {
+            this.shownShare = share;
+            mod.SetUITextLabel(this.shareText, mod.Message(mod.stringkeys.personal_team_share, share));
         }
-    }
 
-    /**
-     * Refresh - called by the HUD update loop to refresh timer display
-     */
-    public refresh(): void {
-        this.updateTime();
+        if (streak !== this.shownStreak) {
+            this.shownStreak = streak;
+            mod.SetUIWidgetVisible(this.streakText, streak >= STREAK_INDICATOR_MIN);
+            mod.SetUITextLabel(this.streakText, mod.Message(mod.stringkeys.personal_streak, streak));
+        }
     }
 
-    /**
-     * Clean up UI widgets
-     */
     public destroy(): void {
-        mod.DeleteUIWidget(this.columnWidget);
-        mod.DeleteUIWidget(this.columnWidgetOutline);
+        mod.DeleteUIWidget(this.rootWidget);
     }
 }
 
-// --- SCORE PROGRESS BAR ---
-class ScoreProgressBar {
-    private rootContainer: mod.UIWidget;
-    private team1Bar: mod.UIWidget;
-    private team2Bar: mod.UIWidget;
-    private barWidth: number;
+// --- LOADING HUD ---
+// Shown to every player while the territory and the layers loaded on start are parsed and spawned
+class LoadingHUD {
+    private rootWidget: mod.UIWidget;
+    private progressText: mod.UIWidget;
+    private barTrack: mod.UIWidget;
+    private progressFill: mod.UIWidget;
+    private barWidth = 300;
+    private barHeight = 8;
+    private currentPercent = -1;
 
-    constructor(params: any) {
-        this.barWidth = params.size[0];
-        this.rootContainer = modlib.ParseUI({
+    constructor() {
+        this.rootWidget = modlib.ParseUI({
             type: "Container",
-            parent: params.parent,
-            position: params.position,
-            size: [this.barWidth, params.size[1]],
+            size: [this.barWidth + 40, 64],
+            position: [0, 140, 0],
             anchor: mod.UIAnchor.TopCenter,
             bgFill: mod.UIBgFill.Blur,
             bgColor: [0, 0, 0],
-            bgAlpha: 0,
+            bgAlpha: 0.6,
         })!;
 
-        mod.SetUIWidgetBgAlpha(this.rootContainer, 0);
-
-        const barHeight = params.size[1];
-        const team1Color = GetTeamColorById(1);
-        const team2Color = GetTeamColorById(2);
+        this.progressText = modlib.ParseUI({
+            type: "Text",
+            parent: this.rootWidget,
+            position: [0, 10],
+            size: [this.barWidth, 24],
+            anchor: mod.UIAnchor.TopCenter,
+            textAnchor: mod.UIAnchor.Center,
+            textSize: 20,
+            textLabel: "",
+            textColor: [1, 1, 1],
+            bgAlpha: 0,
+        })!;
 
-        this.team1Bar = modlib.ParseUI({
+        this.barTrack = modlib.ParseUI({
             type: "Container",
-            parent: this.rootContainer,
-            position: [0, 0],
-            size: [this.barWidth / 2, barHeight],
-            anchor: mod.UIAnchor.CenterLeft,
+            parent: this.rootWidget,
+            position: [0, 44],
+            size: [this.barWidth, this.barHeight],
+            anchor: mod.UIAnchor.TopCenter,
             bgFill: mod.UIBgFill.Solid,
-            bgColor: team1Color,
+            bgColor: [0.2, 0.2, 0.2],
             bgAlpha: 0.9,
         })!;
 
-        mod.SetUIWidgetBgFill(this.team1Bar, mod.UIBgFill.Solid);
-        mod.SetUIWidgetBgColor(this.team1Bar, team1Color);
-        mod.SetUIWidgetBgAlpha(this.team1Bar, 0.9);
-
-        this.team2Bar = modlib.ParseUI({
+        this.progressFill = modlib.ParseUI({
             type: "Container",
-            parent: this.rootContainer,
+            parent: this.barTrack,
             position: [0, 0],
-            size: [this.barWidth / 2, barHeight],
-            anchor: mod.UIAnchor.CenterRight,
+            size: [0, this.barHeight],
+            anchor: mod.UIAnchor.CenterLeft,
             bgFill: mod.UIBgFill.Solid,
-            bgColor: team2Color,
+            bgColor: [1, 1, 1],
             bgAlpha: 0.9,
         })!;
 
-        mod.SetUIWidgetBgFill(this.team2Bar, mod.UIBgFill.Solid);
-        mod.SetUIWidgetBgColor(this.team2Bar, team2Color);
-        mod.SetUIWidgetBgAlpha(this.team2Bar, 0.9);
+        this.setProgress(0);
     }
 
-    public refresh(scores: Map<number, number>): void {
-        const score1 = scores.get(1) ?? 0;
-        const score2 = scores.get(2) ?? 0;
-        const totalScore = score1 + score2;
-        const progress = totalScore === 0 ? 0.5 : score1 / totalScore;
-
-        mod.SetUIWidgetSize(
-            this.team1Bar,
-            mod.CreateVector(this.barWidth * progress, mod.YComponentOf(mod.GetUIWidgetSize(this.team1Bar)), 0)
-        );
-        mod.SetUIWidgetSize(
-            this.team2Bar,
-            mod.CreateVector(this.barWidth * (1.0 - progress), mod.YComponentOf(mod.GetUIWidgetSize(this.team2Bar)), 0)
-        );
+    // Progress in [0, 1], the widgets are only touched when the shown percentage changes
+    public setProgress(progress: number): void {
+        const percent = Math.floor(Math.min(Math.max(progress, 0), 1) * 100);
+        if (percent === this.currentPercent) return;
+        this.currentPercent = percent;
+
+        mod.SetUITextLabel(this.progressText, mod.Message(mod.stringkeys.loading_map_progress, percent));
+        mod.SetUIWidgetSize(this.progressFill, mod.CreateVector((this.barWidth * percent) / 100, this.barHeight, 0));
+    }
+
+    // Replaces the progress bar with the map failure message, the widget stays up until destroyed
+    public showError(): void {
+        mod.SetUIWidgetVisible(this.barTrack, false);
+        mod.SetUITextLabel(this.progressText, mod.Message(mod.stringkeys.loading_map_failed));
     }
+
     public destroy(): void {
-        mod.DeleteUIWidget(this.rootContainer);
+        mod.DeleteUIWidget(this.rootWidget);
     }
 }
 
-// --- GLOBAL SCORE HUD ---
-class ConquestScoreHUD {
-    private rootWidget: mod.UIWidget;
-    private teamScoreTickers: Map<number, ScoreTicker> = new Map();
-    private timerTicker: RoundTimer;
-    private scoreBar: ScoreProgressBar;
+// --- TERRITORY MINIMAP ---
+// Top-down grid of the map's chunk columns colored by owning team. Every cell is a UI widget, so large maps
+// merge neighbouring chunk columns into one cell to stay within MINIMAP_MAX_CELLS.
+const MINIMAP_ENABLED = runtimeConfig.boolean("minimapEnabled", true);
+const MINIMAP_SIZE = 160; // Longest side in pixels
+const MINIMAP_MAX_CELLS = 256;
+const MINIMAP_NEUTRAL_COLOR = mod.CreateVector(0.3, 0.3, 0.3);
 
-    constructor() {
-        // Create global UI widget (not tied to any specific player)
+class TerritoryMinimap {
+    private readonly manager: DynamicObjectManager;
+    private rootWidget: mod.UIWidget;
+    private cellWidgets: Array<mod.UIWidget | undefined>;
+
+    // Grid layout: each cell covers cellSpan x cellSpan chunk columns, starting at chunk column (minCx, minCz)
+    private readonly minCx: number;
+    private readonly minCz: number;
+    private readonly cellSpan: number;
+    private readonly gridCols: number;
+    private readonly gridRows: number;
+
+    // Chunk ids per cell, cell i owns cellChunks[cellStarts[i] .. cellStarts[i + 1])
+    private readonly cellStarts: Uint32Array;
+    private readonly cellChunks: Uint32Array;
+    private readonly cellOwners: Int8Array;
+    private readonly chunkCounts = new Uint32Array(TEAM_COUNT);
+
+    // Cells whose chunks changed owner since the last refresh
+    private readonly dirtyCells: Uint32Array;
+    private readonly dirtyFlags: Uint8Array;
+    private dirtyCount = 0;
+    private readonly onChunkOwnershipChanged = (chunkId: number): void => this.markDirty(this.getCell(chunkId));
+
+    constructor(manager: DynamicObjectManager) {
+        this.manager = manager;
+        const data = manager.getMapData();
+
+        this.minCx = Math.floor(data.minBounds.x / data.chunkSize);
+        this.minCz = Math.floor(data.minBounds.z / data.chunkSize);
+        const columns = Math.floor(data.maxBounds.x / data.chunkSize) - this.minCx + 1;
+        const rows = Math.floor(data.maxBounds.z / data.chunkSize) - this.minCz + 1;
+
+        let cellSpan = 1;
+        while (Math.ceil(columns / cellSpan) * Math.ceil(rows / cellSpan) > MINIMAP_MAX_CELLS) cellSpan++;
+        this.cellSpan = cellSpan;
+        this.gridCols = Math.ceil(columns / cellSpan);
+        this.gridRows = Math.ceil(rows / cellSpan);
+        const cellCount = this.gridCols * this.gridRows;
+
+        // Bucket the chunks by cell
+        this.cellStarts = new Uint32Array(cellCount + 1);
+        for (let chunkId = 0; chunkId < data.chunkCount; chunkId++) this.cellStarts[this.getCell(chunkId) + 1]++;
+        for (let cell = 0; cell < cellCount; cell++) this.cellStarts[cell + 1] += this.cellStarts[cell];
+        this.cellChunks = new Uint32Array(data.chunkCount);
+        const fill = this.cellStarts.slice(0, cellCount);
+        for (let chunkId = 0; chunkId < data.chunkCount; chunkId++) this.cellChunks[fill[this.getCell(chunkId)]++] = chunkId;
+
+        this.cellOwners = new Int8Array(cellCount).fill(CAPTURE_TEAM_NONE);
+        this.dirtyCells = new Uint32Array(cellCount);
+        this.dirtyFlags = new Uint8Array(cellCount);
+
+        const cellSize = Math.max(2, Math.floor(MINIMAP_SIZE / Math.max(this.gridCols, this.gridRows)));
         this.rootWidget = modlib.ParseUI({
             type: "Container",
-            size: [700, 100],
-            position: [0, 20, 0],
-            anchor: mod.UIAnchor.TopCenter,
+            size: [this.gridCols * cellSize, this.gridRows * cellSize],
+            position: [20, 20, 0],
+            anchor: mod.UIAnchor.TopRight,
             bgFill: mod.UIBgFill.Blur,
             bgColor: [0, 0, 0],
-            bgAlpha: 0.0,
+            bgAlpha: 0.4,
         })!;
 
-        const teamScoreSpacing = 490;
-        const teamScorePaddingTop = 68;
-        const teamWidgetSize = [76, 30];
+        // Only cells with encoded chunks get a widget, rows run north (+z) to south
+        this.cellWidgets = new Array<mod.UIWidget | undefined>(cellCount);
+        for (let cell = 0; cell < cellCount; cell++) {
+            if (this.cellStarts[cell] === this.cellStarts[cell + 1]) continue;
 
-        this.teamScoreTickers.set(
-            1,
-            new ScoreTicker({
-                parent: this.rootWidget,
-                position: [-teamScoreSpacing * 0.5, teamScorePaddingTop],
-                size: teamWidgetSize,
-                teamId: 1,
-                textSize: 24,
-            })
-        );
-        this.teamScoreTickers.set(
-            2,
-            new ScoreTicker({
+            const column = cell % this.gridCols;
+            const row = this.gridRows - 1 - Math.floor(cell / this.gridCols);
+            this.cellWidgets[cell] = modlib.ParseUI({
+                type: "Container",
                 parent: this.rootWidget,
-                position: [teamScoreSpacing * 0.5, teamScorePaddingTop],
-                size: teamWidgetSize,
-                teamId: 2,
-                textSize: 24,
-            })
+                position: [column * cellSize, row * cellSize],
+                size: [cellSize - 1, cellSize - 1],
+                anchor: mod.UIAnchor.TopLeft,
+                bgFill: mod.UIBgFill.Solid,
+                bgColor: MINIMAP_NEUTRAL_COLOR,
+                bgAlpha: 0.8,
+            })!;
+            this.markDirty(cell);
+        }
+
+        gameEvents.on("onChunkOwnershipChanged", this.onChunkOwnershipChanged);
+    }
+
+    // Recolors the cells whose chunks changed owner
+    public refresh(): void {
+        for (let i = 0; i < this.dirtyCount; i++) {
+            const cell = this.dirtyCells[i];
+            this.dirtyFlags[cell] = 0;
+
+            const owner = this.computeCellOwner(cell);
+            const widget = this.cellWidgets[cell];
+            if (owner === this.cellOwners[cell] || widget === undefined) continue;
+
+            this.cellOwners[cell] = owner;
+            mod.SetUIWidgetBgColor(widget, owner === CAPTURE_TEAM_NONE ? MINIMAP_NEUTRAL_COLOR : GetTeamColorById(owner + 1));
+        }
+        this.dirtyCount = 0;
+    }
+
+    public destroy(): void {
+        gameEvents.off("onChunkOwnershipChanged", this.onChunkOwnershipChanged);
+        mod.DeleteUIWidget(this.rootWidget);
+    }
+
+    private getCell(chunkId: number): number {
+        const data = this.manager.getMapData();
+        const column = Math.floor((data.chunkCoords[chunkId * 3] - this.minCx) / this.cellSpan);
+        const row = Math.floor((data.chunkCoords[chunkId * 3 + 2] - this.minCz) / this.cellSpan);
+        // Clamped in case a chunk lies outside the header bounds
+        return Math.min(Math.max(row, 0), this.gridRows - 1) * this.gridCols + Math.min(Math.max(column, 0), this.gridCols - 1);
+    }
+
+    private markDirty(cell: number): void {
+        if (this.dirtyFlags[cell] !== 0) return;
+        this.dirtyFlags[cell] = 1;
+        this.dirtyCells[this.dirtyCount++] = cell;
+    }
+
+    // Team index owning the most chunks of the cell, CAPTURE_TEAM_NONE if none or the lead is shared
+    private computeCellOwner(cell: number): number {
+        this.chunkCounts.fill(0);
+        for (let i = this.cellStarts[cell]; i < this.cellStarts[cell + 1]; i++) {
+            const owner = this.manager.getChunkOwner(this.cellChunks[i]);
+            if (owner !== CAPTURE_TEAM_NONE) this.chunkCounts[owner]++;
+        }
+
+        let owner = CAPTURE_TEAM_NONE;
+        let best = 0;
+        for (let team = 0; team < TEAM_COUNT; team++) {
+            if (this.chunkCounts[team] > best) {
+                best = this.chunkCounts[team];
+                owner = team;
+            } else if (this.chunkCounts[team] === best) {
+                owner = CAPTURE_TEAM_NONE;
+            }
+        }
+        return owner;
+    }
+}
+
+// --- CENTRE MESSAGE ---
+// Transient message in the middle of the screen, shown to every player
+const CENTER_MESSAGE_TICKS = 90;
+
+class CenterMessage {
+    private textWidget: mod.UIWidget;
+    private ticksLeft = 0;
+
+    constructor() {
+        this.textWidget = modlib.ParseUI({
+            type: "Text",
+            position: [0, 180, 0],
+            size: [600, 40],
+            anchor: mod.UIAnchor.TopCenter,
+            textAnchor: mod.UIAnchor.Center,
+            textSize: 32,
+            textLabel: "",
+            textColor: [1, 1, 1],
+            bgAlpha: 0,
+        })!;
+        mod.SetUIWidgetVisible(this.textWidget, false);
+    }
+
+    public show(message: mod.Message, durationTicks: number = CENTER_MESSAGE_TICKS): void {
+        mod.SetUITextLabel(this.textWidget, message);
+        mod.SetUIWidgetVisible(this.textWidget, true);
+        this.ticksLeft = durationTicks;
+    }
+
+    public refresh(): void {
+        if (this.ticksLeft === 0) return;
+        if (--this.ticksLeft === 0) mod.SetUIWidgetVisible(this.textWidget, false);
+    }
+
+    public destroy(): void {
+        mod.DeleteUIWidget(this.textWidget);
+    }
+}
+
+// --- LEAD ANNOUNCER ---
+// Lead changes closer together than this still move the brackets, but are not announced again
+const LEAD_ANNOUNCE_COOLDOWN_TICKS = 150;
+// Seconds remaining at which a close game is announced, and the largest gap between the top two teams that counts
+const CLOSE_GAME_WARNING_SECONDS = runtimeConfig.read<number[]>(
+    "closeGameWarningSeconds",
+    [120, 60, 30],
+    "an array of seconds, largest first",
+    (value): value is number[] => isNumberArray(value) && value.every((seconds, i) => i === 0 || seconds < value[i - 1])
+);
+const CLOSE_GAME_MARGIN = runtimeConfig.integer("closeGameMargin", 25, 0);
+
+type LeadState = "tied" | "leading";
+
+/**
+ * Lead/tie state machine behind the score HUD. Moves the leading brackets, pulses the new leader's ticker,
+ * and announces lead changes and close games near the end of the round.
+ */
+class LeadAnnouncer {
+    private state: LeadState = "tied";
+    private leader = 0;
+    private lastAnnounceTick = -LEAD_ANNOUNCE_COOLDOWN_TICKS;
+    private tick = 0;
+    // Index of the next CLOSE_GAME_WARNING_SECONDS entry to check
+    private nextWarning = 0;
+
+    constructor(private readonly scoreHud: ConquestScoreHUD, private readonly message: CenterMessage) {}
+
+    public update(scores: Map<number, number>): void {
+        this.tick++;
+
+        let leader = 0;
+        let best = -1;
+        let second = -1;
+        for (let teamId = 1; teamId <= TEAM_COUNT; teamId++) {
+            const score = scores.get(teamId) ?? 0;
+            if (score > best) {
+                second = best;
+                best = score;
+                leader = teamId;
+            } else {
+                if (score === best) leader = 0;
+                if (score > second) second = score;
+            }
+        }
+
+        this.updateLead(leader);
+        this.updateCloseGame(best - second);
+    }
+
+    private updateLead(leader: number): void {
+        const state: LeadState = leader === 0 ? "tied" : "leading";
+        if (state === this.state && leader === this.leader) return;
+
+        this.state = state;
+        this.leader = leader;
+        this.scoreHud.setLeader(leader);
+
+        if (state === "leading") this.scoreHud.pulseTeam(leader);
+        if (this.tick - this.lastAnnounceTick < LEAD_ANNOUNCE_COOLDOWN_TICKS) return;
+
+        this.lastAnnounceTick = this.tick;
+        this.message.show(
+            state === "leading" ? mod.Message(mod.stringkeys.lead_taken, leader) : mod.Message(mod.stringkeys.lead_tied)
         );
+    }
 
-        const barWidth = teamScoreSpacing - teamWidgetSize[0] - 20;
-        const barPosY = teamScorePaddingTop + teamWidgetSize[1] / 2 - 6; // Center vertically
-        this.scoreBar = new ScoreProgressBar({ position: [0, barPosY], size: [barWidth, 12], parent: this.rootWidget });
+    private updateCloseGame(gap: number): void {
+        if (this.nextWarning >= CLOSE_GAME_WARNING_SECONDS.length) return;
 
-        this.timerTicker = new RoundTimer({ position: [0, 48], parent: this.rootWidget, textSize: 26, size: [100, 22] });
+        const remaining = mod.GetMatchTimeRemaining();
+        if (remaining > CLOSE_GAME_WARNING_SECONDS[this.nextWarning]) return;
+
+        // Skip thresholds that were already passed together, only the latest one is announced
+        while (
+            this.nextWarning < CLOSE_GAME_WARNING_SECONDS.length &&
+            remaining <= CLOSE_GAME_WARNING_SECONDS[this.nextWarning]
+        ) {
+            this.nextWarning++;
+        }
+
+        if (gap <= CLOSE_GAME_MARGIN) {
+            this.lastAnnounceTick = this.tick;
+            this.message.show(mod.Message(mod.stringkeys.close_game, gap));
+        }
     }
+}
 
-    public refresh(scores: Map<number, number>): void {
-        this.teamScoreTickers.get(1)?.refresh();
-        this.teamScoreTickers.get(2)?.refresh();
-        this.timerTicker.refresh();
-        this.scoreBar.refresh(scores);
+// --- DEBUG HUD ---
+// Live engine counters for admins: object budget, skipped types, backlogs, parse progress and the last tick's work
+const DEBUG_HUD_ENABLED = runtimeConfig.boolean("debugHudEnabled", false);
+// Player ids shown the debug HUD. Without any, it goes to the first player to join and moves on when they leave.
+const DEBUG_HUD_ADMIN_IDS = runtimeConfig.read<number[]>(
+    "debugHudAdminIds",
+    [],
+    "an array of player ids",
+    (value): value is number[] => isNumberArray(value)
+);
+// Interact point admins use to turn the debug HUD on and off in game, -1 for none. It does nothing without admin ids.
+const DEBUG_HUD_TOGGLE_INTERACT_POINT_ID = runtimeConfig.integer("debugHudToggleInteractPointId", -1, -1);
+const DEBUG_HUD_REFRESH_TICKS = 10;
+const DEBUG_HUD_LINE_COUNT = 6;
+const DEBUG_HUD_LINE_HEIGHT = 20;
+
+class DebugHUD {
+    readonly playerId: number;
+    private rootWidget: mod.UIWidget;
+    private lines: mod.UIWidget[] = [];
+    // Last shown arguments, three per line. A line is only touched when one of them changes.
+    private shownValues = new Float64Array(DEBUG_HUD_LINE_COUNT * 3).fill(NaN);
+
+    constructor(player: mod.Player) {
+        this.playerId = mod.GetObjId(player);
+
+        this.rootWidget = modlib.ParseUI({
+            type: "Container",
+            playerId: player,
+            size: [300, DEBUG_HUD_LINE_COUNT * DEBUG_HUD_LINE_HEIGHT + 16],
+            position: [20, 220, 0],
+            anchor: mod.UIAnchor.CenterRight,
+            bgFill: mod.UIBgFill.Solid,
+            bgColor: [0, 0, 0],
+            bgAlpha: 0.6,
+        })!;
+
+        for (let line = 0; line < DEBUG_HUD_LINE_COUNT; line++) {
+            this.lines.push(
+                modlib.ParseUI({
+                    type: "Text",
+                    playerId: player,
+                    parent: this.rootWidget,
+                    position: [10, 8 + line * DEBUG_HUD_LINE_HEIGHT],
+                    size: [280, DEBUG_HUD_LINE_HEIGHT],
+                    anchor: mod.UIAnchor.TopLeft,
+                    textAnchor: mod.UIAnchor.CenterLeft,
+                    textSize: 14,
+                    textLabel: "",
+                    textColor: [0.6, 1, 0.6],
+                    bgAlpha: 0,
+                })!
+            );
+        }
+    }
+
+    public refresh(manager: DynamicObjectManager | null): void {
+        const parseProgress = manager ? 100 : parser ? Math.floor(parser.getProgress() * 100) : 0;
+        const skippedTypes = parser ? parser.getSkippedTypeCount() : 0;
+        const skippedObjects = parser ? parser.getSkippedObjectCount() : 0;
+
+        const live = objectBudget.getLiveCount();
+        const territory = manager ? manager.getSpawnedCount() : 0;
+        if (this.changed(0, live, objectBudget.getCeiling(), territory)) {
+            mod.SetUITextLabel(
+                this.lines[0],
+                mod.Message(mod.stringkeys.debug_objects, live, objectBudget.getCeiling(), territory)
+            );
+        }
+
+        if (this.changed(1, skippedTypes, skippedObjects)) {
+            mod.SetUITextLabel(this.lines[1], mod.Message(mod.stringkeys.debug_skipped, skippedTypes, skippedObjects));
+        }
+
+        const swapBacklog = manager ? manager.getSwapBacklog() : 0;
+        if (this.changed(2, swapBacklog, objectBudget.getQueuedCount())) {
+            mod.SetUITextLabel(
+                this.lines[2],
+                mod.Message(mod.stringkeys.debug_backlog, swapBacklog, objectBudget.getQueuedCount())
+            );
+        }
+
+        if (this.changed(3, parseProgress)) {
+            mod.SetUITextLabel(this.lines[3], mod.Message(mod.stringkeys.debug_parse, parseProgress));
+        }
+
+        const touched = manager ? manager.getLastTouchedCount() : 0;
+        const swaps = manager ? manager.getLastSwapCount() : 0;
+        if (this.changed(4, touched, swaps, objectBudget.getLastDrainedCount())) {
+            mod.SetUITextLabel(
+                this.lines[4],
+                mod.Message(mod.stringkeys.debug_tick_work, touched, swaps, objectBudget.getLastDrainedCount())
+            );
+        }
+
+        const suppressed = getSuppressedLogCount();
+        if (this.changed(5, suppressed)) {
+            mod.SetUITextLabel(this.lines[5], mod.Message(mod.stringkeys.debug_log_suppressed, suppressed));
+        }
+    }
+
+    // Records the line's arguments, returns true if any differs from what is shown
+    private changed(line: number, a: number, b: number = 0, c: number = 0): boolean {
+        const i = line * 3;
+        if (this.shownValues[i] === a && this.shownValues[i + 1] === b && this.shownValues[i + 2] === c) return false;
+
+        this.shownValues[i] = a;
+        this.shownValues[i + 1] = b;
+        this.shownValues[i + 2] = c;
+        return true;
     }
 
     public destroy(): void {
-        this.teamScoreTickers.forEach((t) => t.destroy());
-        this.timerTicker.destroy();
-        this.scoreBar.destroy();
         mod.DeleteUIWidget(this.rootWidget);
     }
 }
@@ -1738,16 +5453,118 @@ let hudManager: HUDManager | null = null;
 
 class HUDManager {
     private globalHud: ConquestScoreHUD;
+    private centerMessage: CenterMessage;
+    private leadAnnouncer: LeadAnnouncer;
+    private playerHuds: Map<number, PlayerHUD> = new Map();
+    // Created once the map data is ready
+    private minimap: TerritoryMinimap | null = null;
+    private debugHuds: Map<number, DebugHUD> = new Map();
+    private debugHudEnabled = DEBUG_HUD_ENABLED;
+    private debugRefreshTick = 0;
 
     constructor() {
         this.globalHud = new ConquestScoreHUD();
+        this.centerMessage = new CenterMessage();
+        this.leadAnnouncer = new LeadAnnouncer(this.globalHud, this.centerMessage);
+
+        // Players that joined before the HUD existed
+        for (const player of players) {
+            if (player) this.addPlayer(player);
+        }
+    }
+
+    public addPlayer(player: mod.Player): void {
+        const playerId = mod.GetObjId(player);
+        this.removePlayer(playerId);
+        this.playerHuds.set(playerId, new PlayerHUD(player));
+
+        if (this.debugHudEnabled && this.isDebugAdmin(playerId)) {
+            this.debugHuds.set(playerId, new DebugHUD(player));
+            log.hud.info(`Debug HUD shown to player ${playerId}.`);
+        }
+    }
+
+    public removePlayer(playerId: number): void {
+        this.playerHuds.get(playerId)?.destroy();
+        this.playerHuds.delete(playerId);
+
+        const debugHud = this.debugHuds.get(playerId);
+        if (!debugHud) return;
+        debugHud.destroy();
+        this.debugHuds.delete(playerId);
+        // Without configured admin ids the HUD moves on to another player
+        if (this.debugHudEnabled) this.assignDebugHuds(playerId);
+    }
+
+    private isDebugAdmin(playerId: number): boolean {
+        if (DEBUG_HUD_ADMIN_IDS.length > 0) return DEBUG_HUD_ADMIN_IDS.indexOf(playerId) >= 0;
+        return this.debugHuds.size === 0;
+    }
+
+    // Runs every tick from the start of loading, the debug HUDs refresh every DEBUG_HUD_REFRESH_TICKS
+    public refreshDebug(manager: DynamicObjectManager | null): void {
+        if (this.debugHuds.size === 0 || this.debugRefreshTick++ % DEBUG_HUD_REFRESH_TICKS !== 0) return;
+        this.debugHuds.forEach((hud) => hud.refresh(manager));
+    }
+
+    // Debug HUDs are created for the admins in the game when enabled and deleted when disabled
+    public setDebugHudEnabled(enabled: boolean): void {
+        this.debugHudEnabled = enabled;
+        if (enabled) {
+            this.assignDebugHuds(NO_PLAYER);
+            return;
+        }
+
+        this.debugHuds.forEach((hud) => hud.destroy());
+        this.debugHuds.clear();
+    }
+
+    public toggleDebugHud(playerId: number): void {
+        // Without configured admins there is nobody to trust with the toggle
+        if (DEBUG_HUD_ADMIN_IDS.indexOf(playerId) < 0) return;
+
+        this.setDebugHudEnabled(!this.debugHudEnabled);
+        log.hud.info(`Player ${playerId} turned the debug HUD ${this.debugHudEnabled ? "on" : "off"}.`);
+    }
+
+    private assignDebugHuds(excludedPlayerId: number): void {
+        for (const player of players) {
+            if (!player) continue;
+
+            const playerId = mod.GetObjId(player);
+            if (playerId === excludedPlayerId || this.debugHuds.has(playerId) || !this.isDebugAdmin(playerId)) continue;
+            this.debugHuds.set(playerId, new DebugHUD(player));
+            log.hud.info(`Debug HUD shown to player ${playerId}.`);
+        }
     }
 
-    public refreshAll(scores: Map<number, number>): void {
+    public refreshAll(scores: Map<number, number>, manager: DynamicObjectManager | null): void {
+        this.leadAnnouncer.update(scores);
         this.globalHud.refresh(scores);
+        this.centerMessage.refresh();
+        this.playerHuds.forEach((hud) => hud.refresh(manager, scores));
+
+        if (MINIMAP_ENABLED && manager) {
+            if (!this.minimap) this.minimap = new TerritoryMinimap(manager);
+            this.minimap.refresh();
+        }
+    }
+
+    // Rebuilds the HUD from scratch for a new round
+    public reset(): void {
+        this.globalHud.destroy();
+        this.globalHud = new ConquestScoreHUD();
+        this.leadAnnouncer = new LeadAnnouncer(this.globalHud, this.centerMessage);
     }
 
     public destroy(): void {
         this.globalHud.destroy();
+        this.centerMessage.destroy();
+        this.minimap?.destroy();
+        this.minimap = null;
+        this.playerHuds.forEach((hud) => hud.destroy());
+        this.playerHuds.clear();
+        this.debugHuds.forEach((hud) => hud.destroy());
+        this.debugHuds.clear();
     }
 }
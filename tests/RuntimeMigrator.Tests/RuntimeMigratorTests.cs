@@ -130,6 +130,7 @@ public sealed class RuntimeMigratorTests
     {
         JsonObject chunks = JsonNode.Parse(File.ReadAllText(stringsPath))!.AsObject();
         return string.Concat(chunks
+            .Where(pair => pair.Key.StartsWith('A') && pair.Key[1..].All(Uri.IsHexDigit))
             .Select(pair => new { Key = pair.Key, Value = pair.Value!.GetValue<string>() })
             .OrderBy(pair => Convert.ToInt32(pair.Key[1..], 16))
             .Select(pair => pair.Value));
@@ -1000,6 +1001,169 @@ public sealed class RuntimeMigratorTests
         Assert.Equal(5, inlineScaleCount);
         Assert.Equal(0, inlineRotCount); // rotation is always identity, fits in palette
     }
+
+    [Fact]
+    public void PayloadCompressorRoundTripsAcrossBlocks()
+    {
+        var random = new Random(1234);
+        byte[] raw = new byte[3000];
+        for (int i = 0; i < raw.Length; i++)
+            raw[i] = random.Next(4) == 0 ? (byte)random.Next(256) : (byte)(i % 7);
+
+        byte[] container = PayloadCompressor.Compress(raw, 512);
+
+        Assert.True(PayloadCompressor.IsCompressed(container));
+        // A plain payload starts with format version 1, which never carries the flag
+        Assert.False(PayloadCompressor.IsCompressed(new byte[] { 1, 0 }));
+        Assert.True(container.Length < raw.Length);
+        Assert.Equal(raw, PayloadCompressor.Decompress(container));
+        Assert.Equal(Array.Empty<byte>(), PayloadCompressor.Decompress(PayloadCompressor.Compress(Array.Empty<byte>())));
+    }
+
+    [Fact]
+    public void CompressFlagStoresCompressedContainerInStrings()
+    {
+        using var result = RunConverter(MinimalSpatialJson, "--verbose", "--compress");
+
+        Assert.Equal(0, result.ExitCode);
+        byte[] stored = ReadEncodedBinary(Path.Combine(result.TempDir, "compiled.strings.json"));
+        Assert.True(PayloadCompressor.IsCompressed(stored));
+        Assert.Equal(result.RawBinary, PayloadCompressor.Decompress(stored));
+    }
+
+    [Fact]
+    public void Base64EncodingDeclaresMarkerAndPacksMoreBytesPerKey()
+    {
+        using var result = RunConverter(MinimalSpatialJson, "--verbose", "--encoding", "base64");
+
+        Assert.Equal(0, result.ExitCode);
+        string stringsPath = Path.Combine(result.TempDir, "compiled.strings.json");
+        var strings = JsonNode.Parse(File.ReadAllText(stringsPath))!.AsObject();
+        Assert.Equal("base64", strings["A_enc"]!.GetValue<string>());
+        Assert.Equal("base64", strings["A_crc_enc"]!.GetValue<string>());
+
+        string encoded = ReadEncodedText(stringsPath);
+        Assert.DoesNotContain(encoded, c => c is '{' or '}' or '"' or '\\' or '=');
+        Assert.Equal(result.RawBinary, Utilities.DecodeBase64Url(encoded));
+
+        // Full keys keep the 200 character limit and decode to 150 bytes each
+        Assert.All(strings.Where(pair => pair.Key.Length == 2 && pair.Key[0] == 'A' && Uri.IsHexDigit(pair.Key[1]))
+                .SkipLast(1),
+            pair => Assert.Equal(200, pair.Value!.GetValue<string>().Length));
+    }
+
+    [Fact]
+    public void EncodingFlagRejectsUnknownEncodings()
+    {
+        using var result = RunConverter(MinimalSpatialJson, "--encoding", "base85");
+
+        Assert.Equal(1, result.ExitCode);
+    }
+
+    [Fact]
+    public void StringsWriterEmitsChecksumStreamForEveryKey()
+    {
+        string tempDir = Path.Combine(Path.GetTempPath(), "RuntimeMigrator.Tests", Guid.NewGuid().ToString("N"));
+        Directory.CreateDirectory(tempDir);
+        try
+        {
+            byte[] payload = new byte[250];
+            for (int i = 0; i < payload.Length; i++) payload[i] = (byte)(i * 7);
+
+            string stringsPath = Path.Combine(tempDir, "checked.strings.json");
+            StringsJsonWriter.Write(payload, stringsPath);
+
+            var strings = JsonNode.Parse(File.ReadAllText(stringsPath))!.AsObject();
+            byte[] checksums = Utilities.DecodeCustomBase16(strings["A_crc0"]!.GetValue<string>());
+            using var reader = new BinaryReader(new MemoryStream(checksums));
+
+            Assert.Equal(250u, reader.ReadUInt32());
+            Assert.Equal(3u, reader.ReadUInt32());
+            Assert.Equal(Utilities.Crc32(payload), reader.ReadUInt32());
+            for (int key = 0; key < 3; key++)
+            {
+                byte[] keyBytes = Utilities.DecodeCustomBase16(strings[$"A{key:X}"]!.GetValue<string>());
+                Assert.Equal(Utilities.Crc32(keyBytes), reader.ReadUInt32());
+            }
+
+            // Standard CRC32 check value, so the runtime implementation can be compared against it
+            Assert.Equal(0xCBF43926u, Utilities.Crc32("123456789"u8));
+        }
+        finally
+        {
+            Directory.Delete(tempDir, recursive: true);
+        }
+    }
+
+    [Fact]
+    public void StringsWriterMergesStreamLayersAndReplacesStaleKeys()
+    {
+        string tempDir = Path.Combine(Path.GetTempPath(), "RuntimeMigrator.Tests", Guid.NewGuid().ToString("N"));
+        Directory.CreateDirectory(tempDir);
+        try
+        {
+            string stringsPath = Path.Combine(tempDir, "layers.strings.json");
+            StringsJsonWriter.Write(new byte[250], stringsPath);
+            StringsJsonWriter.Write(new byte[250], stringsPath, streamPrefix: "B", merge: true);
+            // Rewriting a layer with less data must not leave its old trailing keys behind
+            StringsJsonWriter.Write(new byte[50], stringsPath, streamPrefix: "B", merge: true);
+
+            var strings = JsonNode.Parse(File.ReadAllText(stringsPath))!.AsObject();
+            Assert.NotNull(strings["A0"]);
+            Assert.NotNull(strings["A2"]);
+            Assert.NotNull(strings["B0"]);
+            Assert.Null(strings["B1"]);
+            Assert.Null(strings["B2"]);
+
+            Assert.Throws<ArgumentException>(() => StringsJsonWriter.Write(new byte[1], stringsPath, streamPrefix: "a"));
+        }
+        finally
+        {
+            Directory.Delete(tempDir, recursive: true);
+        }
+    }
+
+    [Fact]
+    public void ConverterKeepsOtherLayersAndConfigWhenRewritingDefaultLayer()
+    {
+        string tempDir = Path.Combine(Path.GetTempPath(), "RuntimeMigrator.Tests", Guid.NewGuid().ToString("N"));
+        Directory.CreateDirectory(tempDir);
+        try
+        {
+            string inputPath = Path.Combine(tempDir, "input.spatial.json");
+            string outputPath = Path.Combine(tempDir, "compiled.bin");
+            string stringsPath = Path.Combine(tempDir, "compiled.strings.json");
+            File.WriteAllText(inputPath, MinimalSpatialJson);
+            File.WriteAllText(stringsPath, """{ "config": "{}", "AF": "stale" }""");
+            StringsJsonWriter.Write(new byte[50], stringsPath, streamPrefix: "B", merge: true);
+
+            TextWriter originalOut = Console.Out;
+            int exitCode;
+            try
+            {
+                using var sink = new StringWriter();
+                Console.SetOut(sink);
+                exitCode = CodeGenerator.Main(new[] { inputPath, outputPath });
+            }
+            finally
+            {
+                Console.SetOut(originalOut);
+            }
+
+            Assert.Equal(0, exitCode);
+            var strings = JsonNode.Parse(File.ReadAllText(stringsPath))!.AsObject();
+            Assert.Equal("{}", strings["config"]!.GetValue<string>());
+            Assert.NotNull(strings["B0"]);
+            Assert.NotNull(strings["B_crc0"]);
+            Assert.NotNull(strings["A0"]);
+            Assert.Null(strings["AF"]);
+        }
+        finally
+        {
+            Directory.Delete(tempDir, recursive: true);
+        }
+    }
+
     private sealed class ConversionResult : IDisposable
     {
         public string TempDir { get; }